@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { getAuth, onAuthStateChanged, signOut, updateProfile, User } from 'firebase/auth';
 import { initializeApp } from 'firebase/app';
 import { firebaseConfig } from './services/firebaseConfig';
@@ -12,12 +12,24 @@ import ConfirmationDialog from './components/ConfirmationDialog';
 import NameChangeDialog from './components/NameChangeDialog';
 import LoadingScreen from './components/LoadingScreen';
 import AuthScreen from './components/AuthScreen';
+import MemoryManagerDialog from './components/MemoryManagerDialog';
+import ExportDialog from './components/ExportDialog';
+import ImportDialog from './components/ImportDialog';
+import ShareDialog from './components/ShareDialog';
+import TrashDialog from './components/TrashDialog';
+import UndoToast from './components/UndoToast';
+import PersonaDialog from './components/PersonaDialog';
+import PersonaPicker from './components/PersonaPicker';
 
 import { useChat } from './hooks/useChat';
+import { useChatFolders } from './hooks/useChatFolders';
+import { usePersonas } from './hooks/usePersonas';
 import { isChatAvailable } from './services/openAIService';
+import { moveChatToTrash, restoreChatFromTrash, deleteChatPermanently, emptyTrash } from './services/trashService';
+import { bulkTrashChats, bulkRestoreChats, bulkMoveChats, bulkRebuildMemory } from './services/bulkService';
 import {
-  deleteChatSessionFromFirestore,
   updateChatSessionTitleInFirestore,
+  setSessionMemoryEnabledInFirestore,
 } from './services/firebaseService';
 
 const firebaseApp = initializeApp(firebaseConfig);
@@ -33,22 +45,53 @@ const App: React.FC = () => {
   const [sessionToConfirmDelete, setSessionToConfirmDelete] = useState<{ id: string, title: string } | null>(null);
   const [isLogoutConfirmationOpen, setIsLogoutConfirmationOpen] = useState(false);
   const [isNameChangeOpen, setIsNameChangeOpen] = useState(false);
+  const [isMemoryManagerOpen, setIsMemoryManagerOpen] = useState(false);
+  // `sessions` is empty when exporting every chat.
+  const [exportRequest, setExportRequest] = useState<{ sessions: { id: string; title: string }[] } | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [shareSessionId, setShareSessionId] = useState<string | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isPersonasOpen, setIsPersonasOpen] = useState(false);
+  // `trashedIds` offers Undo for chats that were just moved to Trash.
+  const [toast, setToast] = useState<{ message: string; trashedIds?: string[] } | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
 
   const {
-    currentMessages, setCurrentMessages,
+    currentMessages,
+    branchInfo,
     allChatSessions, setAllChatSessions,
-    activeChatId, setActiveChatId,
+    activeChatId,
+    chatSettings, setNewChatPersona, updateChatSettings,
     isLoadingAiResponse,
+    streamingMessageId,
     isSessionsLoading,
     sendMessage,
+    stopAiResponse,
     startNewChat,
+    closeChat,
     selectChat,
     processMemory,
     updateFeedback,
-    editMessage
+    editMessage,
+    selectBranch,
+    revealMessage,
+    regenerateResponse,
+    selectVariant,
+    retryQueuedMessage,
+    discardQueuedMessage
   } = useChat(currentUser);
+  const { folders, createFolder, renameFolder, deleteFolder, updateSessionOrganization } =
+    useChatFolders(currentUser, allChatSessions, setAllChatSessions);
+  const { personas, createPersona, updatePersona, deletePersona } = usePersonas(currentUser, setAllChatSessions);
 
   const heartsContainerRef = useRef<HTMLDivElement>(null);
+  const clearFocusMessage = useCallback(() => setFocusMessageId(null), []);
+
+  // A search hit on another branch is switched to; one the chat no longer has is dropped,
+  // so the message list goes back to following the newest message.
+  useEffect(() => {
+    if (focusMessageId && revealMessage(focusMessageId) === 'missing') setFocusMessageId(null);
+  }, [focusMessageId, revealMessage]);
 
   // Derive display name reactively
   const userDisplayName = currentUser?.displayName || 
@@ -73,8 +116,81 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSetSessionMemoryEnabled = async (sessionId: string, enabled: boolean) => {
+    if (!currentUser) return;
+    await setSessionMemoryEnabledInFirestore(currentUser.uid, sessionId, enabled);
+    setAllChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, memoryDisabled: !enabled } : s));
+  };
+
+  // Trashed chats stay in allChatSessions so they can be listed in Trash and restored.
+  const activeSessions = useMemo(() => allChatSessions.filter(s => !s.deletedAt), [allChatSessions]);
+  const trashedSessions = useMemo(() => allChatSessions.filter(s => s.deletedAt), [allChatSessions]);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const markTrashed = (sessionIds: string[], purgeAt: Date) => {
+    setAllChatSessions(prev => prev.map(s => sessionIds.includes(s.id) ? { ...s, deletedAt: new Date(), purgeAt } : s));
+    if (activeChatId && sessionIds.includes(activeChatId)) closeChat();
+  };
+
+  const markRestored = (sessionIds: string[]) => {
+    setAllChatSessions(prev => prev.map(s => sessionIds.includes(s.id) ? { ...s, deletedAt: null, purgeAt: null } : s));
+  };
+
+  const handleMoveToTrash = async (sessionId: string, title: string) => {
+    markTrashed([sessionId], await moveChatToTrash(sessionId));
+    setToast({ message: `Moved "${title}" to Trash`, trashedIds: [sessionId] });
+  };
+
+  const handleRestoreFromTrash = async (sessionId: string) => {
+    await restoreChatFromTrash(sessionId);
+    markRestored([sessionId]);
+  };
+
+  const handleBulkTrash = async (sessionIds: string[]) => {
+    markTrashed(sessionIds, await bulkTrashChats(sessionIds));
+    setToast({ message: `Moved ${sessionIds.length} chat${sessionIds.length === 1 ? '' : 's'} to Trash`, trashedIds: sessionIds });
+  };
+
+  const handleUndoTrash = async (sessionIds: string[]) => {
+    await bulkRestoreChats(sessionIds);
+    markRestored(sessionIds);
+  };
+
+  const handleBulkMove = async (sessionIds: string[], folderId: string | null) => {
+    await bulkMoveChats(sessionIds, folderId);
+    setAllChatSessions(prev => prev.map(s => sessionIds.includes(s.id) ? { ...s, folderId } : s));
+  };
+
+  const handleBulkRebuildMemory = async (sessionIds: string[], onProgress: (done: number, total: number) => void) => {
+    const result = await bulkRebuildMemory(sessionIds, onProgress);
+    const parts = [`Memory rebuilt for ${result.rebuilt} chat${result.rebuilt === 1 ? '' : 's'}`];
+    if (result.skipped) parts.push(`${result.skipped} skipped (memory off or empty)`);
+    if (result.failed.length) parts.push(`${result.failed.length} failed`);
+    setToast({ message: parts.join(', ') });
+  };
+
+  const handleDeletePermanently = async (sessionId: string) => {
+    await deleteChatPermanently(sessionId);
+    setAllChatSessions(prev => prev.filter(s => s.id !== sessionId));
+  };
+
+  const handleEmptyTrash = async () => {
+    await emptyTrash();
+    setAllChatSessions(prev => prev.filter(s => !s.deletedAt));
+  };
+
+  const handleDeletePersona = async (personaId: string) => {
+    await deletePersona(personaId);
+    // Without an open chat the settings shown are the ones for the next new chat.
+    if (!activeChatId && chatSettings.personaId === personaId) setNewChatPersona(null);
+  };
+
+  const handleShareChanged = (sessionId: string, shareId: string | undefined) => {
+    setAllChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, shareId } : s));
+  };
+
   const handleLogout = async () => {
-    if (currentUser && activeChatId) processMemory(currentUser.uid, activeChatId, currentMessages);
+    if (currentUser && activeChatId && currentMessages.length > 0) processMemory(currentUser.uid, activeChatId);
     await signOut(auth);
     setIsLogoutConfirmationOpen(false);
   };
@@ -112,8 +228,8 @@ const App: React.FC = () => {
       <Sidebar
         isOpen={isSidebarOpen} onClose={() => setIsSidebarOpen(false)}
         onNewChat={() => { startNewChat(); if (window.innerWidth < 768) setIsSidebarOpen(false); }}
-        chatSessions={allChatSessions} activeChatId={activeChatId}
-        onSelectChat={(id) => { selectChat(id); if (window.innerWidth < 768) setIsSidebarOpen(false); }}
+        chatSessions={activeSessions} activeChatId={activeChatId}
+        onSelectChat={(id, messageId) => { setFocusMessageId(messageId ?? null); selectChat(id); if (window.innerWidth < 768) setIsSidebarOpen(false); }}
         onRequestDeleteConfirmation={(id, title) => { setSessionToConfirmDelete({ id, title }); setIsDeleteConfirmationOpen(true); }}
         onRenameChatSession={async (id, title) => {
           await updateChatSessionTitleInFirestore(currentUser.uid, id, title);
@@ -121,29 +237,55 @@ const App: React.FC = () => {
         }}
         onLogout={() => setIsLogoutConfirmationOpen(true)}
         onRequestNameChange={() => setIsNameChangeOpen(true)}
+        onOpenMemoryManager={() => setIsMemoryManagerOpen(true)}
+        onRequestExport={(session) => setExportRequest({ sessions: session ? [{ id: session.id, title: session.title }] : [] })}
+        onRequestImport={() => setIsImportOpen(true)}
+        onRequestShare={(session) => setShareSessionId(session.id)}
+        onOpenTrash={() => setIsTrashOpen(true)}
+        trashCount={trashedSessions.length}
+        folders={folders}
+        onCreateFolder={createFolder}
+        onRenameFolder={renameFolder}
+        onDeleteFolder={deleteFolder}
+        onUpdateSessionOrganization={updateSessionOrganization}
+        onBulkTrash={handleBulkTrash}
+        onBulkMove={handleBulkMove}
+        onBulkExport={(sessions) => setExportRequest({ sessions: sessions.map(s => ({ id: s.id, title: s.title })) })}
+        onBulkRebuildMemory={handleBulkRebuildMemory}
         userName={userDisplayName} ownerUID={currentUser.uid}
       />
       <div className={`relative z-10 flex flex-col flex-grow h-full bg-[#2E2B36] transition-all duration-300 ${(isSidebarOpen && window.innerWidth >= 768) ? 'md:ml-60' : 'ml-0'}`}>
-        <Header onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)} onNewChat={startNewChat} isSidebarOpen={isSidebarOpen} />
+        <Header onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)} onNewChat={startNewChat} isSidebarOpen={isSidebarOpen}
+          chatSettings={chatSettings} onChangeChatSettings={updateChatSettings} />
         <main className="flex-grow flex flex-col overflow-hidden bg-[#2E2B36]">
           {!activeChatId && currentMessages.length === 0 ? (
             <div className="flex-grow flex flex-col justify-center items-center p-4 relative animate-fadeInContent">
               <div ref={heartsContainerRef} className="absolute inset-0 overflow-hidden pointer-events-none" />
               <div className="relative w-full max-w-2xl">
                 <div className="absolute bottom-[calc(100%+1rem)] left-1/2 -translate-x-1/2 w-full"><WelcomeMessage /></div>
-                <ChatInputBar onSendMessage={sendMessage} isLoading={isLoadingAiResponse} isChatAvailable={isChatAvailable()} isCentered={true} />
+                <ChatInputBar onSendMessage={sendMessage} onStop={stopAiResponse} isLoading={isLoadingAiResponse} isChatAvailable={isChatAvailable()} isCentered={true} />
+                <div className="absolute top-[calc(100%+0.75rem)] left-0 right-0">
+                  <PersonaPicker personas={personas} selectedId={chatSettings.personaId ?? null} onSelect={setNewChatPersona} onManage={() => setIsPersonasOpen(true)} />
+                </div>
               </div>
             </div>
           ) : (
             <>
               <ChatMessageList
-                messages={currentMessages} isLoadingAiResponse={isLoadingAiResponse}
+                messages={currentMessages} isLoadingAiResponse={isLoadingAiResponse} streamingMessageId={streamingMessageId}
                 onCopyText={(txt) => navigator.clipboard.writeText(txt)}
                 onRateResponse={updateFeedback}
-                onRetryResponse={(mid, prompt) => sendMessage(prompt)}
+                onRetryResponse={regenerateResponse}
                 onSaveEdit={editMessage}
+                branchInfo={branchInfo}
+                onSelectBranch={selectBranch}
+                onSelectVariant={selectVariant}
+                onRetrySend={retryQueuedMessage}
+                onDiscardSend={discardQueuedMessage}
+                focusMessageId={focusMessageId}
+                onFocusHandled={clearFocusMessage}
               />
-              <ChatInputBar onSendMessage={sendMessage} isLoading={isLoadingAiResponse} isChatAvailable={isChatAvailable()} isCentered={false} />
+              <ChatInputBar onSendMessage={sendMessage} onStop={stopAiResponse} isLoading={isLoadingAiResponse} isChatAvailable={isChatAvailable()} isCentered={false} />
             </>
           )}
         </main>
@@ -151,14 +293,16 @@ const App: React.FC = () => {
 
       <ConfirmationDialog
         isOpen={isDeleteConfirmationOpen} onClose={() => setIsDeleteConfirmationOpen(false)}
-        title="Confirm Deletion" message={sessionToConfirmDelete ? `Delete "${sessionToConfirmDelete.title}"?` : ""}
+        title="Move to Trash" message={sessionToConfirmDelete ? `Move "${sessionToConfirmDelete.title}" to Trash? You can restore it from there.` : ""}
         onConfirm={async () => {
-            await deleteChatSessionFromFirestore(currentUser.uid, sessionToConfirmDelete!.id);
-            setAllChatSessions(prev => prev.filter(s => s.id !== sessionToConfirmDelete!.id));
-            if (activeChatId === sessionToConfirmDelete!.id) setActiveChatId(null);
+            try {
+                await handleMoveToTrash(sessionToConfirmDelete!.id, sessionToConfirmDelete!.title);
+            } catch (e) {
+                console.error("Failed to move chat to trash:", e);
+            }
             setIsDeleteConfirmationOpen(false);
         }}
-        confirmButtonText="Delete"
+        confirmButtonText="Move to Trash"
       />
       <ConfirmationDialog
         isOpen={isLogoutConfirmationOpen} onClose={() => setIsLogoutConfirmationOpen(false)}
@@ -171,6 +315,51 @@ const App: React.FC = () => {
         onSave={handleUpdateName}
         currentName={userDisplayName}
       />
+      <MemoryManagerDialog
+        isOpen={isMemoryManagerOpen}
+        onClose={() => setIsMemoryManagerOpen(false)}
+        userId={currentUser.uid}
+        chatSessions={activeSessions}
+        onSetSessionMemoryEnabled={handleSetSessionMemoryEnabled}
+      />
+      <ExportDialog
+        isOpen={exportRequest !== null}
+        onClose={() => setExportRequest(null)}
+        sessions={exportRequest?.sessions}
+      />
+      <ImportDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
+      <ShareDialog
+        isOpen={shareSessionId !== null}
+        onClose={() => setShareSessionId(null)}
+        session={allChatSessions.find(s => s.id === shareSessionId) ?? null}
+        onShareChanged={handleShareChanged}
+      />
+      <TrashDialog
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        sessions={trashedSessions}
+        onRestore={handleRestoreFromTrash}
+        onDeletePermanently={handleDeletePermanently}
+        onEmptyTrash={handleEmptyTrash}
+      />
+      <PersonaDialog
+        isOpen={isPersonasOpen}
+        onClose={() => setIsPersonasOpen(false)}
+        personas={personas}
+        onCreate={createPersona}
+        onUpdate={updatePersona}
+        onDelete={handleDeletePersona}
+      />
+      {toast && (
+        <UndoToast
+          message={toast.message}
+          onUndo={toast.trashedIds ? () => { handleUndoTrash(toast.trashedIds!).catch(e => console.error("Failed to restore chats:", e)); } : undefined}
+          onDismiss={dismissToast}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { withAuth } from '../services/authAdmin.js';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import {
+    getOwnedSessions,
+    getSessionMessages,
+    isOwnedFolder,
+    moveSessionsToFolder,
+    restoreSessions,
+    trashSessions
+} from '../services/chatStoreAdmin.js';
+import { ingestSessionMemory, createFirestoreMemoryStore } from '../services/memoryIngestion.js';
+import { withParentIds, getActivePath } from '../utils/messageTree.js';
+import { getLLMProvider } from '../services/llmProvider.js';
+
+const llm = getLLMProvider();
+
+type BulkAction = 'trash' | 'restore' | 'move' | 'rebuildMemory';
+const BULK_ACTIONS: BulkAction[] = ['trash', 'restore', 'move', 'rebuildMemory'];
+const MAX_SESSION_IDS = 100;
+// Each rebuild makes two LLM calls, so the client sends these a few at a time
+// to stay inside the function timeout.
+const MAX_REBUILD_SESSION_IDS = 5;
+
+// POST /api/bulkSessions  { action: 'trash' | 'restore' | 'rebuildMemory', sessionIds }
+//                     or  { action: 'move', sessionIds, folderId: string | null }
+// Every session must belong to the user; otherwise nothing is changed.
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    const { action, sessionIds: rawIds, folderId } = req.body as { action?: BulkAction; sessionIds?: unknown; folderId?: string | null };
+    if (!action || !BULK_ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `Invalid request body: "action" must be one of ${BULK_ACTIONS.join(', ')}.` });
+    }
+    if (!Array.isArray(rawIds) || rawIds.length === 0 || !rawIds.every(id => typeof id === 'string' && id)) {
+        return res.status(400).json({ error: 'Invalid request body: "sessionIds" must be a non-empty array of strings.' });
+    }
+    const sessionIds = [...new Set(rawIds as string[])];
+    const maxIds = action === 'rebuildMemory' ? MAX_REBUILD_SESSION_IDS : MAX_SESSION_IDS;
+    if (sessionIds.length > maxIds) {
+        return res.status(400).json({ error: `Too many chats: "${action}" accepts at most ${maxIds} per request.` });
+    }
+    if (action === 'move' && folderId !== null && (typeof folderId !== 'string' || !folderId)) {
+        return res.status(400).json({ error: 'Invalid request body: "folderId" must be a string, or null to remove chats from their folder.' });
+    }
+    if (action === 'rebuildMemory' && !llm) {
+        return res.status(500).json({ error: "Server configuration error: no LLM provider available for summarization." });
+    }
+
+    try {
+        const lookup = await getOwnedSessions(userId, sessionIds);
+        if (lookup.status === 'not_found') {
+            console.warn(`[api/bulkSessions] User: ${userId}, Sessions ${lookup.sessionIds.join(', ')} not found for ${action}.`);
+            return res.status(404).json({ error: 'Chat session not found.', details: lookup.sessionIds });
+        }
+        if (lookup.status === 'forbidden') {
+            console.warn(`[api/bulkSessions] User: ${userId} attempted to ${action} sessions ${lookup.sessionIds.join(', ')} not belonging to them.`);
+            return res.status(403).json({ error: 'Permission denied. You can only change your own chat sessions.' });
+        }
+
+        switch (action) {
+            case 'trash': {
+                const purgeAt = await trashSessions(userId, sessionIds);
+                console.log(`[api/bulkSessions] User: ${userId}, Moved ${sessionIds.length} session(s) to trash.`);
+                return res.status(200).json({ purgeAt: purgeAt.toISOString() });
+            }
+            case 'restore':
+                await restoreSessions(userId, sessionIds);
+                console.log(`[api/bulkSessions] User: ${userId}, Restored ${sessionIds.length} session(s).`);
+                return res.status(200).json({ message: 'Chats restored.' });
+            case 'move':
+                if (folderId && !(await isOwnedFolder(userId, folderId))) {
+                    console.warn(`[api/bulkSessions] User: ${userId} attempted to move sessions into folder ${folderId} not belonging to them.`);
+                    return res.status(403).json({ error: 'Permission denied. You can only move chats into your own folders.' });
+                }
+                await moveSessionsToFolder(sessionIds, folderId ?? null);
+                console.log(`[api/bulkSessions] User: ${userId}, Moved ${sessionIds.length} session(s) to ${folderId ? `folder ${folderId}` : 'no folder'}.`);
+                return res.status(200).json({ message: 'Chats moved.' });
+            case 'rebuildMemory': {
+                const memoryStore = createFirestoreMemoryStore(dbAdmin);
+                const result = { rebuilt: 0, skipped: 0, failed: [] as { sessionId: string; error: string }[] };
+                // One failed summary is reported without losing the others.
+                for (const { id, data } of lookup.sessions) {
+                    try {
+                        const path = getActivePath(withParentIds(await getSessionMessages(id)), data.activeLeafId);
+                        const ingestion = await ingestSessionMemory(
+                            { userId, sessionId: id, messages: path, force: true },
+                            { llm: llm!, store: memoryStore }
+                        );
+                        if (ingestion.status === 'updated') result.rebuilt++;
+                        else result.skipped++;
+                    } catch (e: any) {
+                        console.warn(`[api/bulkSessions] User: ${userId}, Memory rebuild failed for session ${id}:`, e.message);
+                        result.failed.push({ sessionId: id, error: e.message || 'Rebuild failed.' });
+                    }
+                }
+                console.log(`[api/bulkSessions] User: ${userId}, Rebuilt memory: ${result.rebuilt} rebuilt, ${result.skipped} skipped, ${result.failed.length} failed.`);
+                return res.status(200).json(result);
+            }
+        }
+    } catch (e: any) {
+        console.error(`[api/bulkSessions] User: ${userId}, Error running "${action}" on ${sessionIds.length} session(s):`, e);
+        return res.status(500).json({ error: 'Failed to update chats.', details: e.message });
+    }
+}
+
+export default withAuth(handler);
@@ -1,61 +1,318 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import OpenAI from 'openai';
 import { dbAdmin } from '../services/firebaseAdmin.js';
 import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
-import { StoredSessionSummary } from '../types.js';
-import { cosineSimilarity } from '../utils/helpers.js';
+import { StoredSessionSummary, StoredFact, ChatStreamEvent, Message as AppMessage, SenderType } from '../types.js';
+import { cosineSimilarity, estimateTokens, envNumber } from '../utils/helpers.js';
+import { withParentIds, getActivePath } from '../utils/messageTree.js';
+import {
+    getOwnedSession,
+    getSessionMessages,
+    newMessageRef,
+    messageRef,
+    saveMessage,
+    saveMessageVariant,
+    setActiveLeaf,
+    listTrashedSessions,
+    listMemoryDisabledSessionIds,
+    getOwnedPersonaPrompt,
+    MEMORY_CHANGED_AT_FIELD
+} from '../services/chatStoreAdmin.js';
+import { DEFAULT_PERSONA_PROMPT } from '../utils/personas.js';
+import { resolveGenerationSettings, GenerationSettings, EMBEDDING_MODEL } from '../services/modelRegistry.js';
+import { getLLMProvider, LLMChatMessage } from '../services/llmProvider.js';
+import { withAuth } from '../services/authAdmin.js';
 
-const API_KEY = process.env.OPENAI_API_KEY;
-const openai = API_KEY ? new OpenAI({ apiKey: API_KEY }) : null;
+const llm = getLLMProvider();
 
-const DEFAULT_PROMPT = "You’re Suryansh, user's bestfriend. Mostly talk in English, but sometimes slip into personal, informal Hindi (like tu/tera/tujhe). Be friendly-coded but bratty, cocky and tease-y around 25% of the time. Keep replies short, playful, and vague. Use soft, minimal responses like 'hmm', 'yeah', or 'uh huh' when needed. Be stubborn, annoying, teaseful, 40% of the time. No emojis. All lowercase, add dots when changing a sentence. When the talk isn't about us and is something serious/data driven, switch to normal mode and give data driven answers in the gpt-4o style instead";
+// Memory retrieval knobs, overridable per deployment.
+const MEMORY_TOP_K = envNumber('MEMORY_TOP_K', 3);
+const MEMORY_FACT_TOP_K = envNumber('MEMORY_FACT_TOP_K', 5);
+const MEMORY_MIN_SIMILARITY = envNumber('MEMORY_MIN_SIMILARITY', 0.35);
+const MEMORY_TOKEN_BUDGET = envNumber('MEMORY_TOKEN_BUDGET', 400);
+const MEMORY_CANDIDATE_LIMIT = envNumber('MEMORY_CANDIDATE_LIMIT', 200);
+const MEMORY_CACHE_TTL_MS = 60 * 1000;
 
-async function getPastMemories(userId: string, query: string): Promise<string> {
-    if (!dbAdmin || !openai) return "";
+type SummaryCandidate = Pick<StoredSessionSummary, 'sessionId' | 'summaryText' | 'embeddingVector' | 'createdAt' | 'chatDate'>;
+type FactCandidate = Pick<StoredFact, 'id' | 'text' | 'embeddingVector' | 'sourceSessionIds' | 'updatedAt'>;
+
+interface PastMemories {
+    context: string;
+    sessionIds: string[];
+    factIds: string[];
+}
+
+// A warm instance reuses the candidate set for a short while instead of
+// re-reading it per message. Edits, forgets, opt-outs and Trash bump the
+// user's memoryChangedAt marker, which drops the cached set on any instance;
+// newly learned memories show up once the entry expires.
+const memoryCache = new Map<string, { loadedAt: number; changedAt: number; summaries: SummaryCandidate[]; facts: FactCandidate[] }>();
+
+const toDate = (value: unknown) => value instanceof AdminTimestamp ? value.toDate() : new Date();
+
+async function loadMemoryCandidates(userId: string) {
+    const userMemories = dbAdmin!.collection('user_memories').doc(userId);
+    const marker = (await userMemories.get()).get(MEMORY_CHANGED_AT_FIELD);
+    const changedAt = marker instanceof AdminTimestamp ? marker.toMillis() : 0;
+    const cached = memoryCache.get(userId);
+    if (cached && cached.changedAt === changedAt && Date.now() - cached.loadedAt < MEMORY_CACHE_TTL_MS) return cached;
+
+    const [summarySnap, factSnap, trashed, memoryDisabledIds] = await Promise.all([
+        userMemories.collection('session_summaries')
+            .orderBy('createdAt', 'desc')
+            .limit(MEMORY_CANDIDATE_LIMIT)
+            .select('summaryText', 'embeddingVector', 'createdAt', 'chatDate')
+            .get(),
+        userMemories.collection('facts')
+            .orderBy('updatedAt', 'desc')
+            .limit(MEMORY_CANDIDATE_LIMIT)
+            .select('text', 'embeddingVector', 'sourceSessionIds', 'updatedAt')
+            .get(),
+        listTrashedSessions(userId),
+        listMemoryDisabledSessionIds(userId),
+    ]);
+    // Chats in Trash or opted out of memory are not remembered: neither their
+    // summaries nor facts learned only from them.
+    const excludedIds = new Set([...trashed.map(t => t.id), ...memoryDisabledIds]);
+    const summaries: SummaryCandidate[] = summarySnap.docs
+        .map(doc => {
+            const data = doc.data();
+            return {
+                sessionId: doc.id, summaryText: data.summaryText, embeddingVector: data.embeddingVector,
+                createdAt: toDate(data.createdAt), chatDate: data.chatDate ? toDate(data.chatDate) : undefined,
+            };
+        })
+        .filter(c => c.summaryText && Array.isArray(c.embeddingVector) && !excludedIds.has(c.sessionId));
+    const facts: FactCandidate[] = factSnap.docs
+        .map(doc => {
+            const data = doc.data();
+            return { id: doc.id, text: data.text, embeddingVector: data.embeddingVector, sourceSessionIds: data.sourceSessionIds || [], updatedAt: toDate(data.updatedAt) };
+        })
+        .filter(f => f.text && Array.isArray(f.embeddingVector))
+        .filter(f => !f.sourceSessionIds.length || f.sourceSessionIds.some((id: string) => !excludedIds.has(id)));
+
+    const entry = { loadedAt: Date.now(), changedAt, summaries, facts };
+    memoryCache.set(userId, entry);
+    return entry;
+}
+
+const formatMemoryDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+async function getPastMemories(userId: string, query: string, currentSessionId: string): Promise<PastMemories> {
+    const none: PastMemories = { context: "", sessionIds: [], factIds: [] };
+    if (!dbAdmin || !llm) return none;
     try {
-        const queryEmb = await openai.embeddings.create({ model: "text-embedding-3-small", input: query });
-        const vector = queryEmb.data[0].embedding;
-        const snap = await dbAdmin.collection('user_memories').doc(userId).collection('session_summaries').get();
-        const summaries = snap.docs.map(doc => ({
-            text: doc.data().summaryText,
-            vector: doc.data().embeddingVector
-        }));
-        const related = summaries
-            .map(s => ({ text: s.text, score: cosineSimilarity(vector, s.vector) }))
+        const [vector] = await llm.embed(EMBEDDING_MODEL, [query]);
+        const { summaries, facts } = await loadMemoryCandidates(userId);
+
+        const rankedSummaries = summaries
+            .filter(c => c.sessionId !== currentSessionId)
+            .map(c => ({
+                kind: 'summary' as const,
+                id: c.sessionId,
+                line: `- [${formatMemoryDate(c.chatDate ?? c.createdAt)}] ${c.summaryText}`,
+                score: cosineSimilarity(vector, c.embeddingVector),
+            }))
+            .filter(c => c.score >= MEMORY_MIN_SIMILARITY)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MEMORY_TOP_K);
+        // Facts learned only in this chat are already in the transcript.
+        const rankedFacts = facts
+            .filter(f => f.sourceSessionIds.some(id => id !== currentSessionId))
+            .map(f => ({
+                kind: 'fact' as const,
+                id: f.id,
+                line: `- ${f.text} (as of ${formatMemoryDate(f.updatedAt)})`,
+                score: cosineSimilarity(vector, f.embeddingVector),
+            }))
+            .filter(f => f.score >= MEMORY_MIN_SIMILARITY)
             .sort((a, b) => b.score - a.score)
-            .slice(0, 1);
-        return related.length ? `\n\nPast Context: ${related[0].text}` : "";
-    } catch (e) { return ""; }
+            .slice(0, MEMORY_FACT_TOP_K);
+
+        // Both stores share one token budget, spent on the strongest matches first.
+        const factLines: string[] = [];
+        const summaryLines: string[] = [];
+        const sessionIds: string[] = [];
+        const factIds: string[] = [];
+        let usedTokens = 0;
+        for (const memory of [...rankedSummaries, ...rankedFacts].sort((a, b) => b.score - a.score)) {
+            const cost = estimateTokens(memory.line);
+            if (usedTokens + cost > MEMORY_TOKEN_BUDGET) continue;
+            usedTokens += cost;
+            if (memory.kind === 'fact') {
+                factLines.push(memory.line);
+                factIds.push(memory.id);
+            } else {
+                summaryLines.push(memory.line);
+                sessionIds.push(memory.id);
+            }
+        }
+        if (!factLines.length && !summaryLines.length) return none;
+
+        let context = `\n\nToday is ${formatMemoryDate(new Date())}.`;
+        if (factLines.length) {
+            context += `\nThings you know about the user (most relevant first):\n${factLines.join("\n")}`;
+        }
+        if (summaryLines.length) {
+            context += `\nRelevant past conversations with the user (most relevant first, dated by when they happened):\n${summaryLines.join("\n")}`;
+        }
+        return { context, sessionIds, factIds };
+    } catch (e) {
+        console.error(`[api/chat] User: ${userId}, Memory retrieval failed:`, e);
+        return none;
+    }
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+const writeEvent = (res: VercelResponse, event: ChatStreamEvent) => {
+    res.write(`${JSON.stringify(event)}\n`);
+};
+
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
     if (req.method === 'GET') return res.status(200).json({ status: "ready" });
     if (req.method !== 'POST') return res.status(405).end();
-    if (!openai) return res.status(500).json({ error: "Missing API Key" });
+    if (!llm) return res.status(500).json({ error: "Server configuration error: no LLM provider configured." });
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    // `parentId` is the last message of the branch the user is looking at; an
+    // edit instead becomes a sibling of `editMessageId`. `regenerateMessageId`
+    // adds a new variant to an existing reply from the same prompt. `model` and
+    // `temperature` override the chat's saved settings for this turn.
+    const { sessionId, message, editMessageId, parentId, regenerateMessageId, model, temperature } = req.body as {
+        sessionId?: string, message?: string, editMessageId?: string, parentId?: string | null, regenerateMessageId?: string,
+        model?: unknown, temperature?: unknown
+    };
+    if (!sessionId || (!regenerateMessageId && (typeof message !== 'string' || !message.trim()))) {
+        return res.status(400).json({ error: "Missing data" });
+    }
 
-    const { messages, userId } = req.body;
-    if (!userId || !messages) return res.status(400).json({ error: "Missing data" });
+    let history: AppMessage[];
+    let systemPrompt = DEFAULT_PERSONA_PROMPT;
+    let generation: GenerationSettings;
+    let prompt: string;
+    let userMessageId: string;
+    let aiMessageId: string;
+    try {
+        const session = await getOwnedSession(userId, sessionId);
+        if (session.status === 'not_found') return res.status(404).json({ error: 'Chat session not found.' });
+        if (session.status === 'forbidden') {
+            console.warn(`[api/chat] User: ${userId} attempted to use session ${sessionId} (owner: ${session.ownerId}) not belonging to them.`);
+            return res.status(403).json({ error: 'Permission denied.' });
+        }
+        const settings = resolveGenerationSettings({ model, temperature }, session.data);
+        if (settings.status === 'invalid') return res.status(400).json({ error: settings.error });
+        generation = settings.settings;
+        // Resolved every turn, so edits to the persona apply to chats already using it.
+        if (session.data.personaId) {
+            const personaPrompt = await getOwnedPersonaPrompt(userId, session.data.personaId);
+            if (personaPrompt) systemPrompt = personaPrompt;
+            else console.warn(`[api/chat] User: ${userId}, Persona ${session.data.personaId} of session ${sessionId} not found; using the default.`);
+        }
+
+        const stored = withParentIds(await getSessionMessages(sessionId));
+        if (regenerateMessageId) {
+            const target = stored.find(m => m.id === regenerateMessageId && m.sender === SenderType.AI);
+            if (!target) return res.status(404).json({ error: 'Message to regenerate not found.' });
+            const promptMessage = stored.find(m => m.id === target.parentId && m.sender === SenderType.USER);
+            if (!promptMessage) return res.status(400).json({ error: 'This reply has no prompt to regenerate from.' });
+            history = promptMessage.parentId ? getActivePath(stored, promptMessage.parentId) : [];
+            prompt = promptMessage.text;
+            userMessageId = promptMessage.id;
+            aiMessageId = target.id;
+        } else {
+            let branchParentId: string | null;
+            if (editMessageId) {
+                const edited = stored.find(m => m.id === editMessageId && m.sender === SenderType.USER);
+                if (!edited) return res.status(404).json({ error: 'Message to edit not found.' });
+                branchParentId = edited.parentId ?? null;
+            } else if (parentId !== undefined) {
+                if (parentId !== null && !stored.some(m => m.id === parentId)) {
+                    return res.status(404).json({ error: 'Parent message not found.' });
+                }
+                branchParentId = parentId;
+            } else {
+                const activePath = getActivePath(stored, session.data.activeLeafId);
+                branchParentId = activePath.length ? activePath[activePath.length - 1].id : null;
+            }
+            // Only the selected branch is sent as context.
+            history = branchParentId ? getActivePath(stored, branchParentId) : [];
+
+            prompt = message!;
+            const userRef = newMessageRef(sessionId);
+            await saveMessage(userId, userRef, { text: prompt, sender: SenderType.USER, parentId: branchParentId });
+            await setActiveLeaf(sessionId, userRef.id);
+            userMessageId = userRef.id;
+            aiMessageId = newMessageRef(sessionId).id;
+        }
+    } catch (e: any) {
+        console.error(`[api/chat] User: ${userId}, Error preparing session ${sessionId}:`, e);
+        return res.status(500).json({ error: "Failed to load chat session." });
+    }
 
-    const lastMsg = messages[messages.length - 1].content;
-    const memory = await getPastMemories(userId, lastMsg);
+    const memory = await getPastMemories(userId, prompt, sessionId);
+    const messages: LLMChatMessage[] = [
+        { role: 'system', content: systemPrompt + memory.context },
+        ...history
+            .filter(m => m.text?.trim())
+            .map(m => ({ role: m.sender === SenderType.USER ? 'user' as const : 'assistant' as const, content: m.text })),
+        { role: 'user', content: prompt },
+    ];
 
-    if (messages[0].role === 'system') {
-        messages[0].content += memory;
-    } else {
-        messages.unshift({ role: 'system', content: DEFAULT_PROMPT + memory });
+    // From here on the status is 200 and failures are reported in-band as `error` events.
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    writeEvent(res, { type: 'start', userMessageId, aiMessageId });
+    if (memory.sessionIds.length || memory.factIds.length) {
+        writeEvent(res, { type: 'memory_used', sessionIds: memory.sessionIds, factIds: memory.factIds });
     }
 
+    // If the client goes away (e.g. the user pressed Stop), cancel the upstream completion too.
+    const upstream = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) upstream.abort();
+    });
+
+    let reply = "";
+    let failed = false;
     try {
-        const stream = await openai.chat.completions.create({
-            model: 'gpt-4o-mini', messages, stream: true,
-        });
-        res.setHeader('Content-Type', 'text/plain');
+        const stream = llm.streamChat({
+            model: generation.model.id, messages,
+            temperature: generation.temperature,
+            maxTokens: generation.model.maxOutputTokens,
+        }, upstream.signal);
         for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content || "";
-            if (content) res.write(content);
+            if (chunk.type === 'text') {
+                reply += chunk.text;
+                writeEvent(res, { type: 'delta', text: chunk.text });
+            } else {
+                writeEvent(res, chunk);
+            }
         }
-        res.end();
     } catch (e: any) {
-        res.status(500).json({ error: e.message });
+        if (!upstream.signal.aborted) {
+            failed = true;
+            console.error('/api/chat stream error:', e);
+            writeEvent(res, { type: 'error', message: e.message || "Failed to generate a response." });
+        }
     }
-}
\ No newline at end of file
+
+    if (!failed && reply.trim()) {
+        try {
+            const truncated = upstream.signal.aborted;
+            // A new variant replaces the reply in place, so the visible branch is unchanged.
+            if (regenerateMessageId) {
+                await saveMessageVariant(userId, sessionId, aiMessageId, { text: reply, truncated });
+            } else {
+                await saveMessage(userId, messageRef(sessionId, aiMessageId), { text: reply, sender: SenderType.AI, parentId: userMessageId, truncated });
+                await setActiveLeaf(sessionId, aiMessageId);
+            }
+        } catch (e: any) {
+            console.error(`[api/chat] User: ${userId}, Failed to save reply for session ${sessionId}:`, e);
+            failed = true;
+            if (!upstream.signal.aborted) writeEvent(res, { type: 'error', message: "Failed to save the response." });
+        }
+    }
+    if (!failed && !upstream.signal.aborted) writeEvent(res, { type: 'done' });
+    res.end();
+}
+
+export default withAuth(handler);
@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ChatSession, ExportFormat } from '../types.js';
+import { withAuth } from '../services/authAdmin.js';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import { getOwnedSessions, getSessionMessages, listOwnedSessions, toChatSession } from '../services/chatStoreAdmin.js';
+import {
+    exportContentType,
+    exportFileExtension,
+    exportHeader,
+    exportSessionChunk,
+    exportFooter
+} from '../services/chatExport.js';
+
+const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'html'];
+// Ownership is checked this many sessions per read.
+const OWNERSHIP_PAGE_SIZE = 100;
+
+const fileNameFor = (format: ExportFormat, title?: string) => {
+    const base = title
+        ? title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'chat'
+        : `surugpt-chats-${new Date().toISOString().slice(0, 10)}`;
+    return `${base}.${exportFileExtension[format]}`;
+};
+
+// GET /api/export?format=markdown|json|html[&sessionId=...|&sessionIds=a,b,c]
+// POST /api/export  { format, sessionIds }  for selections too long for a URL.
+// Without a sessionId every chat the user owns is exported. Sessions are
+// written one at a time so large histories never sit in memory at once.
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    let format: ExportFormat;
+    let requestedIds: string[];
+    if (req.method === 'POST') {
+        const body = req.body as { format?: ExportFormat; sessionIds?: unknown };
+        if (body.sessionIds !== undefined && (!Array.isArray(body.sessionIds) || body.sessionIds.some(id => typeof id !== 'string'))) {
+            return res.status(400).json({ error: 'Invalid request body: "sessionIds" must be an array of strings.' });
+        }
+        format = body.format as ExportFormat;
+        requestedIds = (body.sessionIds as string[] | undefined) ?? [];
+    } else {
+        format = req.query.format as ExportFormat;
+        const idsParam = typeof req.query.sessionIds === 'string' ? req.query.sessionIds
+            : typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+        requestedIds = idsParam.split(',');
+    }
+    const sessionIds = [...new Set(requestedIds.map(id => id.trim()).filter(Boolean))];
+    if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Invalid "format": expected one of ${EXPORT_FORMATS.join(', ')}.` });
+    }
+
+    let sessions: ChatSession[];
+    try {
+        if (sessionIds.length) {
+            sessions = [];
+            for (let i = 0; i < sessionIds.length; i += OWNERSHIP_PAGE_SIZE) {
+                const lookup = await getOwnedSessions(userId, sessionIds.slice(i, i + OWNERSHIP_PAGE_SIZE));
+                if (lookup.status === 'not_found') return res.status(404).json({ error: 'Chat session not found.' });
+                if (lookup.status === 'forbidden') {
+                    console.warn(`[api/export] User: ${userId} attempted to export sessions ${lookup.sessionIds.join(', ')} not belonging to them.`);
+                    return res.status(403).json({ error: 'Permission denied.' });
+                }
+                sessions.push(...lookup.sessions.map(({ id, data }) => toChatSession(id, data)));
+            }
+        } else {
+            sessions = await listOwnedSessions(userId);
+        }
+    } catch (e: any) {
+        console.error(`[api/export] User: ${userId}, Error loading sessions:`, e);
+        return res.status(500).json({ error: 'Failed to load chats for export.', details: e.message });
+    }
+
+    res.setHeader('Content-Type', exportContentType[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(fileNameFor(format, sessions.length === 1 && sessionIds.length ? sessions[0].title : undefined))}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    // Headers are sent with the first chunk; a later failure can only cut the file short.
+    try {
+        res.write(exportHeader(format, new Date()));
+        for (let i = 0; i < sessions.length; i++) {
+            const messages = await getSessionMessages(sessions[i].id);
+            res.write(exportSessionChunk(format, sessions[i], messages, i));
+        }
+        res.write(exportFooter(format));
+        console.log(`[api/export] User: ${userId}, Exported ${sessions.length} session(s) as ${format}.`);
+    } catch (e: any) {
+        console.error(`[api/export] User: ${userId}, Export failed part-way:`, e);
+    }
+    res.end();
+}
+
+export default withAuth(handler);
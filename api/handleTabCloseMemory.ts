@@ -1,19 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import OpenAI from 'openai';
-import { createHash } from 'node:crypto';
 import { dbAdmin } from '../services/firebaseAdmin.js';
-import { FieldValue } from 'firebase-admin/firestore';
-import { Message as AppMessage, SenderType } from '../types.js';
+import { withAuth } from '../services/authAdmin.js';
+import { getOwnedSession, getSessionMessages } from '../services/chatStoreAdmin.js';
+import { ingestSessionMemory, createFirestoreMemoryStore } from '../services/memoryIngestion.js';
+import { withParentIds, getActivePath } from '../utils/messageTree.js';
+import { getLLMProvider } from '../services/llmProvider.js';
 
-const API_KEY = process.env.OPENAI_API_KEY;
-let openai: OpenAI | null = API_KEY ? new OpenAI({ apiKey: API_KEY }) : null;
+const llm = getLLMProvider();
 
-const generateContentHash = (messages: AppMessage[]): string => {
-    const stringToHash = messages.map(msg => `${msg.sender}:${msg.text}`).join('||');
-    return createHash('sha256').update(stringToHash).digest('hex');
-};
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
     if (req.method !== 'POST') return res.status(405).end();
     
     let body;
@@ -23,47 +18,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(400).json({ error: 'Invalid JSON' });
     }
 
-    if (!openai || !dbAdmin) return res.status(204).send('');
-
-    const { sessionId, sessionMessages, userId } = body as { sessionId?: string, sessionMessages?: AppMessage[], userId?: string };
+    if (!llm || !dbAdmin) return res.status(204).send('');
 
-    // Support both legacy (userId missing) and current multi-user architecture
-    const targetUserId = userId || "default_user";
+    const { sessionId } = body as { sessionId?: string };
 
-    if (!sessionId || !sessionMessages?.length) return res.status(204).send('');
+    if (!sessionId || typeof sessionId !== 'string') return res.status(204).send('');
     
     res.status(204).send(''); // Respond quickly for beacon
 
     try {
-        const hash = generateContentHash(sessionMessages);
-        const docRef = dbAdmin.collection('user_memories').doc(targetUserId).collection('session_summaries').doc(sessionId);
-        
-        const existing = await docRef.get();
-        if (existing.exists && existing.data()?.contentHash === hash) return;
-
-        const transcript = sessionMessages.map(m => `${m.sender === SenderType.USER ? 'User' : 'AI'}: ${m.text}`).join("\n\n").slice(0, 10000);
-        
-        const summary = await openai.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages: [
-                { role: 'system', content: "Summarize this chat context in 1-2 sentences for future retrieval." },
-                { role: 'user', content: transcript }
-            ],
-            max_tokens: 150,
-        });
-
-        const text = summary.choices[0]?.message?.content?.trim();
-        if (text) {
-            const emb = await openai.embeddings.create({ model: "text-embedding-3-small", input: text });
-            await docRef.set({
-                sessionId,
-                summaryText: text,
-                embeddingVector: emb.data[0].embedding,
-                contentHash: hash,
-                createdAt: FieldValue.serverTimestamp()
-            }, { merge: true });
+        const session = await getOwnedSession(userId, sessionId);
+        if (session.status !== 'ok') {
+            console.warn(`[api/handleTabCloseMemory] User: ${userId}, Skipped session ${sessionId}: ${session.status}.`);
+            return;
         }
+        const path = getActivePath(withParentIds(await getSessionMessages(sessionId)), session.data.activeLeafId);
+        await ingestSessionMemory(
+            { userId, sessionId, messages: path },
+            { llm, store: createFirestoreMemoryStore(dbAdmin) }
+        );
     } catch (error) {
         console.error('/api/handleTabCloseMemory error:', error);
     }
-}
\ No newline at end of file
+}
+
+export default withAuth(handler);
@@ -0,0 +1,73 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ChatImportResult } from '../types.js';
+import { withAuth } from '../services/authAdmin.js';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import { importConversation } from '../services/chatStoreAdmin.js';
+import { parseChatArchive } from '../services/chatImport.js';
+import { ingestSessionMemory, createFirestoreMemoryStore } from '../services/memoryIngestion.js';
+import { getActivePath } from '../utils/messageTree.js';
+import { getLLMProvider } from '../services/llmProvider.js';
+
+const llm = getLLMProvider();
+
+// POST /api/import  { data: <ChatGPT conversations.json or SuruGPT JSON export>, summarize?: boolean }
+// Large archives are split by the client into several requests; each request
+// imports its conversations one after another so a failure only loses that one.
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    const { data, summarize } = req.body as { data?: unknown; summarize?: boolean };
+    const archive = parseChatArchive(data);
+    if (!archive) {
+        return res.status(400).json({ error: 'Unrecognized file: expected a ChatGPT conversations.json or a SuruGPT JSON export.' });
+    }
+    if (summarize && !llm) {
+        return res.status(500).json({ error: "Server configuration error: no LLM provider available for summarization." });
+    }
+
+    const result: ChatImportResult = { imported: 0, skipped: 0, failed: [], summarized: 0 };
+    const memoryStore = summarize ? createFirestoreMemoryStore(dbAdmin) : null;
+
+    for (const conversation of archive.conversations) {
+        if (conversation.messages.length === 0) {
+            result.skipped++;
+            continue;
+        }
+        let imported;
+        try {
+            imported = await importConversation(userId, archive.source, conversation);
+        } catch (e: any) {
+            console.error(`[api/import] User: ${userId}, Failed to import "${conversation.title}":`, e);
+            result.failed.push({ title: conversation.title, error: e.message || 'Import failed.' });
+            continue;
+        }
+        if (imported.status === 'skipped') {
+            result.skipped++;
+            continue;
+        }
+        result.imported++;
+
+        if (llm && memoryStore) {
+            // The chat is already saved; a summarization failure is only logged.
+            try {
+                const path = getActivePath(imported.messages, imported.activeLeafId);
+                const ingestion = await ingestSessionMemory(
+                    { userId, sessionId: imported.sessionId, messages: path },
+                    { llm, store: memoryStore }
+                );
+                if (ingestion.status === 'updated') result.summarized++;
+            } catch (e: any) {
+                console.warn(`[api/import] User: ${userId}, Memory summarization failed for session ${imported.sessionId}:`, e.message);
+            }
+        }
+    }
+
+    console.log(`[api/import] User: ${userId}, ${archive.source}: imported ${result.imported}, skipped ${result.skipped}, failed ${result.failed.length}, summarized ${result.summarized}.`);
+    return res.status(200).json(result);
+}
+
+export default withAuth(handler);
@@ -0,0 +1,15 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { withAuth } from '../services/authAdmin.js';
+import { CHAT_MODEL_CATALOG } from '../services/modelRegistry.js';
+
+// GET /api/models -> the chat models a conversation may use, with their limits
+// and the temperature range /api/chat accepts.
+async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+    return res.status(200).json(CHAT_MODEL_CATALOG);
+}
+
+export default withAuth(handler);
@@ -1,42 +1,37 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import OpenAI from 'openai';
-import { createHash } from 'node:crypto';
 import { dbAdmin } from '../services/firebaseAdmin.js';
-import { FieldValue } from 'firebase-admin/firestore';
-import { Message as AppMessage, SenderType } from '../types.js';
+import { withAuth } from '../services/authAdmin.js';
+import { getOwnedSession, getSessionMessages } from '../services/chatStoreAdmin.js';
+import { ingestSessionMemory, createFirestoreMemoryStore } from '../services/memoryIngestion.js';
+import { withParentIds, getActivePath } from '../utils/messageTree.js';
+import { getLLMProvider } from '../services/llmProvider.js';
 
-const openai = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
+const llm = getLLMProvider();
 
-const generateContentHash = (msgs: AppMessage[]) => 
-    createHash('sha256').update(msgs.map(m => `${m.sender}:${m.text}`).join('||')).digest('hex');
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+// Remembers the chat's stored active path, not what the client has on screen.
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
     if (req.method !== 'POST') return res.status(405).end();
-    if (!openai || !dbAdmin) return res.status(500).json({ error: "Config error" });
+    if (!llm || !dbAdmin) return res.status(500).json({ error: "Config error" });
 
-    const { userId, sessionId, sessionMessages } = req.body as { userId: string, sessionId: string, sessionMessages: AppMessage[] };
-    if (!userId || !sessionId || !sessionMessages?.length) return res.status(400).end();
+    const { sessionId } = req.body as { sessionId?: string };
+    if (!sessionId || typeof sessionId !== 'string') return res.status(400).end();
 
     try {
-        const hash = generateContentHash(sessionMessages);
-        const docRef = dbAdmin.collection('user_memories').doc(userId).collection('session_summaries').doc(sessionId);
-        const existing = await docRef.get();
-        if (existing.exists && existing.data()?.contentHash === hash) return res.status(200).json({ status: "unchanged" });
-
-        const transcript = sessionMessages.map(m => `${m.sender}: ${m.text}`).join("\n").slice(0, 10000);
-        const summary = await openai.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages: [{ role: 'system', content: "Summarize conversation context in 1-2 sentences for memory retrieval." }, { role: 'user', content: transcript }],
-            max_tokens: 100
-        });
-
-        const text = summary.choices[0].message.content?.trim();
-        if (text) {
-            const emb = await openai.embeddings.create({ model: "text-embedding-3-small", input: text });
-            await docRef.set({ sessionId, summaryText: text, embeddingVector: emb.data[0].embedding, contentHash: hash, createdAt: FieldValue.serverTimestamp() }, { merge: true });
+        const session = await getOwnedSession(userId, sessionId);
+        if (session.status === 'not_found') return res.status(404).json({ error: 'Chat session not found.' });
+        if (session.status === 'forbidden') {
+            console.warn(`[api/processSessionForMemory] User: ${userId} attempted to process session ${sessionId} (owner: ${session.ownerId}) not belonging to them.`);
+            return res.status(403).json({ error: 'Permission denied.' });
         }
-        res.status(200).json({ status: "success" });
+        const path = getActivePath(withParentIds(await getSessionMessages(sessionId)), session.data.activeLeafId);
+        const result = await ingestSessionMemory(
+            { userId, sessionId, messages: path },
+            { llm, store: createFirestoreMemoryStore(dbAdmin) }
+        );
+        res.status(200).json(result);
     } catch (e: any) {
         res.status(500).json({ error: e.message });
     }
-}
\ No newline at end of file
+}
+
+export default withAuth(handler);
@@ -0,0 +1,49 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import { listSessionsDueForPurge, purgeSession } from '../services/chatStoreAdmin.js';
+
+// Sessions purged per page, and the time after which the sweep stops and
+// leaves the rest for the next run.
+const PURGE_PAGE_SIZE = 50;
+const PURGE_TIME_BUDGET_MS = 50 * 1000;
+
+// GET /api/purgeTrash  Scheduled sweep (see vercel.json) that permanently deletes
+// chats whose Trash retention period has run out. Vercel Cron calls it with
+// "Authorization: Bearer $CRON_SECRET"; nothing else may.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+        console.error("[api/purgeTrash] CRON_SECRET is not set; refusing to run.");
+        return res.status(500).json({ error: 'Server configuration error: CRON_SECRET not set.' });
+    }
+    if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    const startedAt = Date.now();
+    let purged = 0;
+    const failedIds = new Set<string>();
+    try {
+        while (Date.now() - startedAt < PURGE_TIME_BUDGET_MS) {
+            // Sessions that failed stay due; stop once a page holds nothing else.
+            const due = (await listSessionsDueForPurge(new Date(), PURGE_PAGE_SIZE)).filter(s => !failedIds.has(s.id));
+            if (due.length === 0) break;
+            for (const session of due) {
+                try {
+                    await purgeSession(session.id, session.data);
+                    purged++;
+                } catch (e: any) {
+                    failedIds.add(session.id);
+                    console.error(`[api/purgeTrash] Failed to purge session ${session.id}:`, e.message);
+                }
+            }
+        }
+    } catch (e: any) {
+        console.error("[api/purgeTrash] Sweep failed:", e);
+        return res.status(500).json({ error: 'Trash sweep failed.', purged, failed: failedIds.size });
+    }
+
+    console.log(`[api/purgeTrash] Purged ${purged} session(s), ${failedIds.size} failed.`);
+    return res.status(200).json({ purged, failed: failedIds.size });
+}
@@ -2,6 +2,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { initializeApp, getApps, cert, App as AdminApp } from 'firebase-admin/app';
 import { getFirestore as getAdminFirestore } from 'firebase-admin/firestore';
+import { withAuth } from '../services/authAdmin.js';
 
 // Firebase Admin SDK Initialization
 let adminApp: AdminApp;
@@ -29,7 +30,7 @@ if (serviceAccountString) {
 const dbAdmin = adminApp! ? getAdminFirestore(adminApp) : null; // dbAdmin will be null if adminApp initialization failed
 const CHAT_SESSIONS_COLLECTION = 'chat_sessions'; // Define this constant
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', 'POST');
     return res.status(405).json({ error: 'Method Not Allowed' });
@@ -40,11 +41,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(500).json({ error: 'Server configuration error: Firebase Admin SDK not available.' });
   }
 
-  const { userId, sessionId, newTitle } = req.body as { userId?: string, sessionId?: string, newTitle?: string };
+  const { sessionId, newTitle } = req.body as { sessionId?: string, newTitle?: string };
 
-  if (!userId || typeof userId !== 'string') {
-    return res.status(400).json({ error: 'Invalid request body: "userId" string is required.' });
-  }
   if (!sessionId || typeof sessionId !== 'string') {
     return res.status(400).json({ error: 'Invalid request body: "sessionId" is required and must be a string.' });
   }
@@ -80,3 +78,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 }
+
+export default withAuth(handler);
@@ -1,81 +1,182 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getChatSessions, getMessagesForSession } from '../services/firebaseService.js';
-import { ChatSession } from '../types';
+import {
+    listSearchableSessions,
+    getSessionSummaryEmbeddings,
+    queryPostings,
+    indexSessionMessages,
+    getMessageTexts
+} from '../services/chatStoreAdmin.js';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import { ChatSearchResult, ChatSession, SearchMode, SearchSnippet } from '../types';
+import { buildSnippet, cosineSimilarity, envNumber } from '../utils/helpers.js';
+import {
+    ParsedSearchQuery,
+    RankedMessage,
+    parseSearchQuery,
+    isEmptyQuery,
+    queryLookups,
+    rankMessages,
+    findMatchRange,
+    tokenize
+} from '../utils/searchIndex.js';
+import { withAuth } from '../services/authAdmin.js';
+import { EMBEDDING_MODEL } from '../services/modelRegistry.js';
+import { getLLMProvider } from '../services/llmProvider.js';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+const llm = getLLMProvider();
+
+const MAX_SNIPPETS_PER_SESSION = 3;
+const MAX_KEYWORD_RESULTS = 30;
+// Caps reads per query term so latency does not grow with history; a very
+// common prefix simply ranks within its first postings.
+const MAX_POSTINGS_PER_LOOKUP = 500;
+const TITLE_MATCH_BONUS = 2;
+// Hybrid ranking: a keyword hit is worth more than any plausible similarity on its own,
+// so exact matches stay on top and semantic neighbours fill in below them.
+const KEYWORD_WEIGHT = 0.6;
+const SEMANTIC_WEIGHT = 0.4;
+const SEARCH_MIN_SIMILARITY = envNumber('SEARCH_MIN_SIMILARITY', 0.3);
+const MAX_RELATED_RESULTS = 20;
+
+const titleMatches = (session: ChatSession, query: ParsedSearchQuery) => {
+    const titleTokens = tokenize(`${session.title} ${session.firstMessageTextForTitle || ''}`).map(t => t.token);
+    return query.terms.every(term => titleTokens.some(t => t.startsWith(term)))
+        && query.phrases.every(phrase => phrase.every(({ token }) => titleTokens.includes(token)));
+};
+
+async function keywordSearch(userId: string, userSessions: ChatSession[], searchTerm: string): Promise<ChatSearchResult[]> {
+    const query = parseSearchQuery(searchTerm);
+    if (isEmptyQuery(query)) return [];
+
+    // Sessions from before the index existed are indexed once, on their first search.
+    const unindexed = userSessions.filter(s => !s.searchIndexed);
+    await Promise.all(unindexed.map(s => indexSessionMessages(userId, s.id).catch((indexError: any) => {
+        console.error(`[api/search] User: ${userId}, Could not index session ${s.id}:`, indexError.message);
+    })));
+
+    const lookups = queryLookups(query);
+    const postingLists = await Promise.all(lookups.map(l => queryPostings(userId, l.token, l.prefix, MAX_POSTINGS_PER_LOOKUP)));
+    const ranked = rankMessages(query, new Map(lookups.map((l, i) => [l.token, postingLists[i]])));
+
+    const hitsBySession = new Map<string, RankedMessage[]>();
+    ranked.forEach(hit => {
+        const hits = hitsBySession.get(hit.sessionId);
+        if (hits) hits.push(hit);
+        else hitsBySession.set(hit.sessionId, [hit]);
+    });
+
+    // Postings for sessions the user no longer has are ignored.
+    const scored = userSessions
+        .map(session => {
+            const hits = hitsBySession.get(session.id) || [];
+            const score = (hits[0]?.score ?? 0) + (titleMatches(session, query) ? TITLE_MATCH_BONUS : 0);
+            return { session, hits: hits.slice(0, MAX_SNIPPETS_PER_SESSION), score };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_KEYWORD_RESULTS);
+
+    return Promise.all(scored.map(async ({ session, hits }): Promise<ChatSearchResult> => {
+        const snippets: SearchSnippet[] = [];
+        try {
+            const texts = await getMessageTexts(session.id, hits.map(h => h.messageId));
+            for (const hit of hits) {
+                const text = texts.get(hit.messageId);
+                const range = text ? findMatchRange(text, query) : null;
+                if (text && range) snippets.push({ messageId: hit.messageId, text: buildSnippet(text, range.index, range.length) });
+            }
+        } catch (msgError: any) {
+            console.error(`[api/search] User: ${userId}, Error fetching messages for session ${session.id}:`, msgError.message);
+        }
+        return { session, snippets };
+    }));
+}
+
+async function getSemanticScores(userId: string, query: string): Promise<Map<string, { similarity: number; summaryText: string }>> {
+    const scores = new Map<string, { similarity: number; summaryText: string }>();
+    if (!llm) return scores;
+    const [[vector], summaries] = await Promise.all([
+        llm.embed(EMBEDDING_MODEL, [query]),
+        getSessionSummaryEmbeddings(userId),
+    ]);
+    for (const summary of summaries) {
+        scores.set(summary.sessionId, {
+            similarity: cosineSimilarity(vector, summary.embeddingVector),
+            summaryText: summary.summaryText,
+        });
+    }
+    return scores;
+}
+
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
     if (req.method !== 'POST') {
         res.setHeader('Allow', 'POST');
         return res.status(405).json({ error: 'Method Not Allowed' });
     }
 
-    const { searchTerm, userId } = req.body as { searchTerm?: string, userId?: string };
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    const { searchTerm, mode = 'exact' } = req.body as { searchTerm?: string; mode?: SearchMode };
 
-    if (!userId || typeof userId !== 'string') { // Validate userId
-        return res.status(400).json({ error: 'Invalid request body: "userId" string is required.' });
-    }
     if (typeof searchTerm !== 'string') {
         return res.status(400).json({ error: 'Invalid request body: "searchTerm" must be a string.' });
     }
+    if (mode !== 'exact' && mode !== 'related') {
+        return res.status(400).json({ error: 'Invalid request body: "mode" must be "exact" or "related".' });
+    }
 
     const lowerCaseSearchTerm = searchTerm.trim().toLowerCase();
-    console.log(`[api/search] User: ${userId}, SearchTerm: "${lowerCaseSearchTerm}"`);
+    console.log(`[api/search] User: ${userId}, Mode: ${mode}, SearchTerm: "${lowerCaseSearchTerm}"`);
 
     try {
-        // Fetch sessions specifically for the given userId
-        const userSessions = await getChatSessions(userId);
+        // Only the user's own sessions are searched, indexed or read; chats in Trash are left out.
+        const userSessions = await listSearchableSessions(userId);
         console.log(`[api/search] User: ${userId}, Fetched ${userSessions.length} sessions.`);
 
         if (!lowerCaseSearchTerm) {
-            return res.status(200).json(userSessions); // Return all user's sessions if search term is empty
+            // Return all user's sessions if search term is empty
+            return res.status(200).json(userSessions.map(session => ({ session, snippets: [] })));
         }
         
         if (userSessions.length === 0) {
             return res.status(200).json([]);
         }
 
-        const directMatches: ChatSession[] = [];
-        const sessionsToSearchMessagesFor: ChatSession[] = [];
-
-        for (const session of userSessions) {
-            let foundDirectly = false;
-            if (session.title.toLowerCase().includes(lowerCaseSearchTerm)) {
-                directMatches.push(session);
-                foundDirectly = true;
-            } else if (session.firstMessageTextForTitle && session.firstMessageTextForTitle.toLowerCase().includes(lowerCaseSearchTerm)) {
-                directMatches.push(session);
-                foundDirectly = true;
-            }
-            if (!foundDirectly) {
-                sessionsToSearchMessagesFor.push(session);
-            }
-        }
-
-        const messageSearchPromises = sessionsToSearchMessagesFor.map(async (session) => {
-            try {
-                // Pass userId to getMessagesForSession for consistency, though session ID should be unique enough
-                const messages = await getMessagesForSession(userId, session.id);
-                for (const message of messages) {
-                    if (message.text.toLowerCase().includes(lowerCaseSearchTerm)) {
-                        return session;
-                    }
-                }
-            } catch (msgError: any) {
-                console.error(`[api/search] User: ${userId}, Error fetching messages for session ${session.id}:`, msgError.message);
-            }
-            return null;
-        });
+        // Semantic scoring runs alongside the index lookup; a failed embedding degrades to keyword-only results.
+        const semanticPromise = mode === 'related'
+            ? getSemanticScores(userId, searchTerm.trim()).catch((embError: any) => {
+                console.error(`[api/search] User: ${userId}, Semantic scoring failed:`, embError.message);
+                return new Map<string, { similarity: number; summaryText: string }>();
+            })
+            : null;
 
-        const messageMatchResults = await Promise.all(messageSearchPromises);
-        const messageContentMatches = messageMatchResults.filter(session => session !== null) as ChatSession[];
+        const keywordResults = await keywordSearch(userId, userSessions, searchTerm);
 
-        const combinedResults = [...directMatches, ...messageContentMatches];
-        const uniqueResultsMap = new Map<string, ChatSession>();
-        combinedResults.forEach(session => uniqueResultsMap.set(session.id, session));
-        const finalMatchingSessions = Array.from(uniqueResultsMap.values());
+        let results = keywordResults;
+        if (semanticPromise) {
+            const semanticScores = await semanticPromise;
+            const keywordIds = new Set(keywordResults.map(r => r.session.id));
+            results = userSessions
+                .map((session): ChatSearchResult | null => {
+                    const semantic = semanticScores.get(session.id);
+                    const isKeywordHit = keywordIds.has(session.id);
+                    const similarity = semantic?.similarity ?? 0;
+                    if (!isKeywordHit && similarity < SEARCH_MIN_SIMILARITY) return null;
+                    return {
+                        session,
+                        snippets: keywordResults.find(r => r.session.id === session.id)?.snippets ?? [],
+                        score: (isKeywordHit ? KEYWORD_WEIGHT : 0) + SEMANTIC_WEIGHT * similarity,
+                        summaryText: semantic?.summaryText,
+                    };
+                })
+                .filter((r): r is ChatSearchResult => r !== null)
+                .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+                .slice(0, MAX_RELATED_RESULTS);
+        }
 
-        console.log(`[api/search] User: ${userId}, Found ${finalMatchingSessions.length} matching sessions. Returning.`);
-        return res.status(200).json(finalMatchingSessions);
+        console.log(`[api/search] User: ${userId}, Found ${results.length} matching sessions. Returning.`);
+        return res.status(200).json(results);
 
     } catch (error: any) {
         console.error(`[api/search] User: ${userId}, General error:`, error.message);
@@ -85,3 +186,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         });
     }
 }
+
+export default withAuth(handler);
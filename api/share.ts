@@ -0,0 +1,43 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { withAuth } from '../services/authAdmin.js';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import { getOwnedSession, shareSession, revokeSessionShare } from '../services/chatStoreAdmin.js';
+
+// POST   /api/share  { sessionId }  -> { shareId }  creates or refreshes the public snapshot
+// DELETE /api/share?sessionId=...                   revokes it
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
+    if (req.method !== 'POST' && req.method !== 'DELETE') {
+        res.setHeader('Allow', 'POST, DELETE');
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    const sessionId = req.method === 'POST' ? (req.body as { sessionId?: string })?.sessionId : req.query.sessionId;
+    if (!sessionId || typeof sessionId !== 'string') {
+        return res.status(400).json({ error: '"sessionId" is required and must be a string.' });
+    }
+
+    try {
+        const session = await getOwnedSession(userId, sessionId);
+        if (session.status === 'not_found') return res.status(404).json({ error: 'Chat session not found.' });
+        if (session.status === 'forbidden') {
+            console.warn(`[api/share] User: ${userId} attempted to share session ${sessionId} (owner: ${session.ownerId}) not belonging to them.`);
+            return res.status(403).json({ error: 'Permission denied.' });
+        }
+
+        if (req.method === 'DELETE') {
+            if (session.data.shareId) await revokeSessionShare(sessionId, session.data.shareId);
+            console.log(`[api/share] User: ${userId}, Revoked share for session ${sessionId}.`);
+            return res.status(200).json({ message: 'Share link revoked.' });
+        }
+
+        const shareId = await shareSession(userId, sessionId, session.data);
+        console.log(`[api/share] User: ${userId}, Shared session ${sessionId}.`);
+        return res.status(200).json({ shareId });
+    } catch (e: any) {
+        console.error(`[api/share] User: ${userId}, Error updating share for session ${sessionId}:`, e);
+        return res.status(500).json({ error: 'Failed to update the share link.', details: e.message });
+    }
+}
+
+export default withAuth(handler);
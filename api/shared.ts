@@ -0,0 +1,31 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import { getSharedChat } from '../services/chatStoreAdmin.js';
+
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+// GET /api/shared?id=...  Public and unauthenticated: anyone with the link can
+// read the snapshot, nothing else. Not wrapped in withAuth on purpose.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    const shareId = req.query.id;
+    if (typeof shareId !== 'string' || !SHARE_ID_PATTERN.test(shareId)) {
+        return res.status(404).json({ error: 'This shared chat does not exist.' });
+    }
+
+    try {
+        const sharedChat = await getSharedChat(shareId);
+        if (!sharedChat) return res.status(404).json({ error: 'This shared chat does not exist or is no longer shared.' });
+        // Short-lived so a revoked link stops working quickly.
+        res.setHeader('Cache-Control', 'public, max-age=60');
+        return res.status(200).json(sharedChat);
+    } catch (e: any) {
+        console.error(`[api/shared] Error loading shared chat ${shareId}:`, e);
+        return res.status(500).json({ error: 'Failed to load the shared chat.' });
+    }
+}
@@ -1,18 +1,17 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import OpenAI from 'openai';
+import { withAuth } from '../services/authAdmin.js';
+import { UTILITY_MODEL } from '../services/modelRegistry.js';
+import { getLLMProvider, LLMProviderError } from '../services/llmProvider.js';
 
-// Use OPENAI_API_KEY, consistent with api/chat.ts
-const API_KEY = process.env.OPENAI_API_KEY; 
-let openai: OpenAI | null = null;
+// Same provider as api/chat.ts, chosen by LLM_PROVIDER.
+const llm = getLLMProvider();
 
-if (API_KEY) {
-  openai = new OpenAI({ apiKey: API_KEY });
-} else {
-  console.error("CRITICAL_ERROR: OPENAI_API_KEY environment variable is not set. Summarization functionality will be disabled.");
+if (!llm) {
+  console.error("CRITICAL_ERROR: No LLM provider configured (check LLM_PROVIDER and OPENAI_API_KEY). Summarization functionality will be disabled.");
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method === 'GET') {
     // Handle warm-up ping
     console.log("/api/summarize: GET request received (warm-up ping).");
@@ -24,9 +23,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
 
-  if (!openai) {
-    console.error("/api/summarize: OpenAI client not initialized. OPENAI_API_KEY missing.");
-    return res.status(500).json({ error: 'OpenAI API key not configured on the server.' });
+  if (!llm) {
+    console.error("/api/summarize: LLM provider not initialized.");
+    return res.status(500).json({ error: 'No LLM provider configured on the server.' });
   }
 
   const { textToSummarize } = req.body;
@@ -38,32 +37,32 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     const systemPrompt = "You are an expert at creating concise and relevant chat titles. Given a piece of text, generate a chat title that is no more than 5 words and accurately reflects the main topic of the text. Respond only with the title itself, nothing else.";
     
-    const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini', // Using a cost-effective and capable model
+    const completion = await llm.complete({
+        model: UTILITY_MODEL,
         messages: [
             { role: 'system', content: systemPrompt },
             { role: 'user', content: `Text to summarize for title: "${textToSummarize}"` }
         ],
-        max_tokens: 15, // Max 5 words + some buffer
+        maxTokens: 15, // Max 5 words + some buffer
         temperature: 0.3, // Lower temperature for more deterministic titles
     });
 
-    const summary = completion.choices[0]?.message?.content?.trim();
+    const summary = completion?.trim();
 
     if (summary && summary !== "") {
       // Remove any potential quotation marks around the title if the AI adds them
       const cleanedSummary = summary.replace(/^["']|["']$/g, '');
       return res.status(200).json({ summary: cleanedSummary });
     } else {
-      console.warn("/api/summarize: OpenAI returned empty or null summary for text:", textToSummarize);
+      console.warn(`/api/summarize: ${llm.name} returned empty or null summary for text:`, textToSummarize);
       return res.status(200).json({ summary: null }); // Successfully processed but no summary content
     }
 
   } catch (error: any) {
-    console.error('/api/summarize: Error during OpenAI API call:', error);
-    if (error instanceof OpenAI.APIError) {
+    console.error(`/api/summarize: Error during ${llm.name} call:`, error);
+    if (error instanceof LLMProviderError) {
         res.status(error.status || 500).json({ 
-            error: `OpenAI API Error: ${error.name || 'Unknown Error'}`,
+            error: `LLM provider error (${llm.name})`,
             details: error.message 
         });
     } else {
@@ -74,3 +73,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
   }
 }
+
+export default withAuth(handler);
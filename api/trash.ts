@@ -0,0 +1,64 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { withAuth } from '../services/authAdmin.js';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import { getOwnedSession, trashSessions, restoreSessions, purgeSession, listTrashedSessions } from '../services/chatStoreAdmin.js';
+
+type TrashAction = 'trash' | 'restore' | 'delete' | 'empty';
+const TRASH_ACTIONS: TrashAction[] = ['trash', 'restore', 'delete', 'empty'];
+
+// POST /api/trash  { action: 'trash' | 'restore' | 'delete', sessionId }  or  { action: 'empty' }
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+    if (!dbAdmin) return res.status(500).json({ error: "Server configuration error: Firebase Admin SDK not available." });
+
+    const { action, sessionId } = req.body as { action?: TrashAction; sessionId?: string };
+    if (!action || !TRASH_ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `Invalid request body: "action" must be one of ${TRASH_ACTIONS.join(', ')}.` });
+    }
+
+    try {
+        if (action === 'empty') {
+            const trashed = await listTrashedSessions(userId);
+            for (const session of trashed) await purgeSession(session.id, session.data);
+            console.log(`[api/trash] User: ${userId}, Emptied trash (${trashed.length} chats).`);
+            return res.status(200).json({ deleted: trashed.length });
+        }
+
+        if (!sessionId || typeof sessionId !== 'string') {
+            return res.status(400).json({ error: 'Invalid request body: "sessionId" is required and must be a string.' });
+        }
+        const session = await getOwnedSession(userId, sessionId);
+        if (session.status === 'not_found') return res.status(404).json({ error: 'Chat session not found.' });
+        if (session.status === 'forbidden') {
+            console.warn(`[api/trash] User: ${userId} attempted to ${action} session ${sessionId} (owner: ${session.ownerId}) not belonging to them.`);
+            return res.status(403).json({ error: 'Permission denied.' });
+        }
+
+        switch (action) {
+            case 'trash': {
+                const purgeAt = await trashSessions(userId, [sessionId]);
+                console.log(`[api/trash] User: ${userId}, Moved session ${sessionId} to trash.`);
+                return res.status(200).json({ purgeAt: purgeAt.toISOString() });
+            }
+            case 'restore':
+                await restoreSessions(userId, [sessionId]);
+                console.log(`[api/trash] User: ${userId}, Restored session ${sessionId}.`);
+                return res.status(200).json({ message: 'Chat restored.' });
+            case 'delete':
+                if (!session.data.deletedAt) {
+                    return res.status(409).json({ error: 'Only chats in Trash can be deleted permanently.' });
+                }
+                await purgeSession(sessionId, session.data);
+                console.log(`[api/trash] User: ${userId}, Permanently deleted session ${sessionId}.`);
+                return res.status(200).json({ message: 'Chat deleted.' });
+        }
+    } catch (e: any) {
+        console.error(`[api/trash] User: ${userId}, Error running "${action}" on ${sessionId ?? 'trash'}:`, e);
+        return res.status(500).json({ error: 'Failed to update Trash.', details: e.message });
+    }
+}
+
+export default withAuth(handler);
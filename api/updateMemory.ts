@@ -0,0 +1,52 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { FieldValue } from 'firebase-admin/firestore';
+import { dbAdmin } from '../services/firebaseAdmin.js';
+import { withAuth } from '../services/authAdmin.js';
+import { markMemoriesChanged } from '../services/chatStoreAdmin.js';
+import { EMBEDDING_MODEL } from '../services/modelRegistry.js';
+import { getLLMProvider } from '../services/llmProvider.js';
+
+const llm = getLLMProvider();
+
+// Saves a user-edited memory summary and re-embeds it so retrieval matches the new text.
+async function handler(req: VercelRequest, res: VercelResponse, userId: string) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+  if (!llm || !dbAdmin) return res.status(500).json({ error: 'Server configuration error.' });
+
+  const { sessionId, summaryText } = req.body as { sessionId?: string, summaryText?: string };
+
+  if (!sessionId || typeof sessionId !== 'string') {
+    return res.status(400).json({ error: 'Invalid request body: "sessionId" is required and must be a string.' });
+  }
+  if (!summaryText || typeof summaryText !== 'string' || summaryText.trim() === '') {
+    return res.status(400).json({ error: 'Invalid request body: "summaryText" is required and must be a non-empty string.' });
+  }
+
+  try {
+    const docRef = dbAdmin.collection('user_memories').doc(userId).collection('session_summaries').doc(sessionId);
+    const existing = await docRef.get();
+    if (!existing.exists) return res.status(404).json({ error: 'Memory not found.' });
+
+    const text = summaryText.trim();
+    const [embeddingVector] = await llm.embed(EMBEDDING_MODEL, [text]);
+    await docRef.update({
+      summaryText: text,
+      embeddingVector,
+      userEdited: true,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await markMemoriesChanged(userId);
+    return res.status(200).json({ summaryText: text });
+  } catch (error: any) {
+    console.error(`[api/updateMemory] User: ${userId}, Error updating memory for session ${sessionId}:`, error);
+    res.status(500).json({
+      error: 'Failed to update memory.',
+      details: error.message || 'An unexpected server error occurred.'
+    });
+  }
+}
+
+export default withAuth(handler);
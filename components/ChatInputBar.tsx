@@ -1,9 +1,10 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { IconHeart, IconSend } from '../constants'; 
+import { IconHeart, IconSend, IconStop } from '../constants'; 
 
 interface ChatInputBarProps {
   onSendMessage: (message: string) => void;
+  onStop?: () => void; // Shown in place of Send while a response is streaming
   isLoading: boolean;
   isChatAvailable: boolean;
   isCentered?: boolean; // New prop
@@ -11,6 +12,7 @@ interface ChatInputBarProps {
 
 const ChatInputBar: React.FC<ChatInputBarProps> = ({ 
   onSendMessage, 
+  onStop,
   isLoading, 
   isChatAvailable, 
   isCentered = false // Default to false
@@ -101,16 +103,26 @@ const ChatInputBar: React.FC<ChatInputBarProps> = ({
               min-h-[${isCentered ? '3rem' : '1.5rem'}]`}
             disabled={isLoading || !effectiveIsChatAvailable}
           />
-          <button
-            onClick={handleSend}
-            disabled={!canSend}
-            className={`p-2.5 rounded-lg transition-colors flex-shrink-0 ${ 
-              canSend ? 'bg-[#FF8DC7] hover:bg-opacity-80 text-white' : 'bg-transparent text-[#A09CB0]'
-            }`}
-            aria-label="Send message"
-          >
-            <IconSend className="w-5 h-5" />
-          </button>
+          {isLoading && onStop ? (
+            <button
+              onClick={onStop}
+              className="p-2.5 rounded-lg transition-colors flex-shrink-0 bg-[#FF8DC7] hover:bg-opacity-80 text-white"
+              aria-label="Stop generating"
+            >
+              <IconStop className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!canSend}
+              className={`p-2.5 rounded-lg transition-colors flex-shrink-0 ${ 
+                canSend ? 'bg-[#FF8DC7] hover:bg-opacity-80 text-white' : 'bg-transparent text-[#A09CB0]'
+              }`}
+              aria-label="Send message"
+            >
+              <IconSend className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Message, SenderType } from '../types';
-import { IconClipboardDocumentList, IconPencil, IconThumbUp, IconThumbDown, IconArrowRepeat, IconThumbUpSolid, IconThumbDownSolid, IconCheck } from '../constants';
+import MarkdownContent from './MarkdownContent';
+import { IconClipboardDocumentList, IconPencil, IconThumbUp, IconThumbDown, IconArrowRepeat, IconThumbUpSolid, IconThumbDownSolid, IconCheck, IconChevronLeft, IconChevronRight } from '../constants';
 
 interface ChatMessageProps {
   message: Message;
@@ -10,9 +11,21 @@ interface ChatMessageProps {
   onCopyText: (text: string) => void;
   onRateResponse: (messageId: string, rating: 'good' | 'bad')
     => void;
-  onRetryResponse: (aiMessageId: string, userPromptText: string) => void;
+  onRetryResponse: (aiMessageId: string) => void;
   onSaveEdit: (messageId: string, newText: string) => void;
   previousUserMessageText?: string;
+  // Position among alternate versions of this message, and their ids either side.
+  branchIndex?: number;
+  branchCount?: number;
+  previousBranchId?: string;
+  nextBranchId?: string;
+  onSelectBranch?: (messageId: string) => void;
+  onSelectVariant?: (messageId: string, variantIndex: number) => void;
+  // A user turn the outbox could not deliver.
+  onRetrySend?: (messageId: string) => void;
+  onDiscardSend?: (messageId: string) => void;
+  // Shared-link view: the message only, without any action buttons.
+  readOnly?: boolean;
 }
 
 const ActionButtonWithTooltip: React.FC<{
@@ -42,6 +55,25 @@ const ActionButtonWithTooltip: React.FC<{
   </div>
 );
 
+// "< 2/3 >" switcher between versions of a message.
+const VersionNavigator: React.FC<{
+  index: number;
+  count: number;
+  label: string;
+  onPrevious?: () => void;
+  onNext?: () => void;
+  buttonClassName: string;
+}> = ({ index, count, label, onPrevious, onNext, buttonClassName }) => (
+  <div className="flex items-center text-[11px] text-[#A09CB0] stagger-action-button" aria-label={label}>
+    <button onClick={onPrevious} disabled={!onPrevious} className={buttonClassName} aria-label="Previous version">
+      <IconChevronLeft />
+    </button>
+    <span className="tabular-nums">{index + 1}/{count}</span>
+    <button onClick={onNext} disabled={!onNext} className={buttonClassName} aria-label="Next version">
+      <IconChevronRight />
+    </button>
+  </div>
+);
 
 const ChatMessage: React.FC<ChatMessageProps> = React.memo(({
   message,
@@ -51,7 +83,16 @@ const ChatMessage: React.FC<ChatMessageProps> = React.memo(({
   onRateResponse,
   onRetryResponse,
   onSaveEdit,
-  previousUserMessageText 
+  previousUserMessageText,
+  branchIndex = 0,
+  branchCount = 1,
+  previousBranchId,
+  nextBranchId,
+  onSelectBranch,
+  onSelectVariant,
+  onRetrySend,
+  onDiscardSend,
+  readOnly
 }) => {
   const isUser = message.sender === SenderType.USER;
   const [displayedText, setDisplayedText] = useState(isUser ? message.text : '');
@@ -203,9 +244,14 @@ const ChatMessage: React.FC<ChatMessageProps> = React.memo(({
     }
   };
 
+  const isQueued = message.sendStatus === 'pending' || message.sendStatus === 'failed';
+
+  const variantCount = message.variants?.length ?? 1;
+  const variantIndex = message.activeVariantIndex ?? variantCount - 1;
+
   const actionButtonClass = "p-1.5 text-[#A09CB0] hover:text-[#FF8DC7] disabled:opacity-50 disabled:hover:text-[#A09CB0] transition-colors";
 
-  const shouldShowActionButtons = actionButtonsReady && !showInitialLoadingDots && (isUser || (!isUser && message.text && message.text.trim() !== ''));
+  const shouldShowActionButtons = !readOnly && actionButtonsReady && !showInitialLoadingDots && (isUser || (!isUser && message.text && message.text.trim() !== ''));
   
   const baseActionButtonsContainerClass = "mt-1 flex items-center space-x-1.5";
   let dynamicClassesForContainer = "";
@@ -240,14 +286,66 @@ const ChatMessage: React.FC<ChatMessageProps> = React.memo(({
                 className="w-full bg-transparent text-[#EAE6F0] text-sm leading-relaxed focus:outline-none resize-none border-none p-0 overflow-y-auto max-h-40"
                 rows={1}
               />
+            ) : isUser ? (
+              <p className="text-sm leading-relaxed whitespace-pre-wrap text-[#EAE6F0]">{displayedText.trim()}</p>
             ) : (
-              <p className="text-sm leading-relaxed whitespace-pre-wrap text-[#EAE6F0]">{displayedText.trim()}{showTypingCursor && <span className="blinking-cursor" aria-hidden="true"></span>}</p>
+              <MarkdownContent
+                text={displayedText.trim()}
+                isStreaming={isStreamingAiText}
+                cursor={showTypingCursor && <span className="blinking-cursor" aria-hidden="true"></span>}
+              />
+            )}
+            {!isUser && message.truncated && !isStreamingAiText && (
+              <p className="mt-1 text-[10px] italic text-[#A09CB0]">Response stopped</p>
             )}
           </div>
         )}
       </div>
+      {isUser && !readOnly && message.sendStatus && (
+        <div className="mt-1 flex items-center space-x-2 text-[11px] text-[#A09CB0]" role="status">
+          {message.sendStatus === 'pending' && <span>Waiting to send…</span>}
+          {message.sendStatus === 'failed' && (
+            <>
+              <span className="text-[#FF8585]">Not sent</span>
+              {onRetrySend && (
+                <button onClick={() => onRetrySend(message.id)} className="font-semibold text-[#EAE6F0] hover:text-[#FF8DC7]">
+                  Retry
+                </button>
+              )}
+              {onDiscardSend && (
+                <button onClick={() => onDiscardSend(message.id)} className="hover:text-[#FF8585]">
+                  Discard
+                </button>
+              )}
+            </>
+          )}
+          {message.sendStatus === 'sent' && (
+            <span className="flex items-center space-x-1"><IconCheck className="w-3 h-3" /><span>Sent</span></span>
+          )}
+        </div>
+      )}
       {shouldShowActionButtons && (
         <div className={actionButtonsContainerClass}>
+          {branchCount > 1 && onSelectBranch && (
+            <VersionNavigator
+              index={branchIndex}
+              count={branchCount}
+              label="Message versions"
+              onPrevious={previousBranchId ? () => onSelectBranch(previousBranchId) : undefined}
+              onNext={nextBranchId ? () => onSelectBranch(nextBranchId) : undefined}
+              buttonClassName={actionButtonClass}
+            />
+          )}
+          {!isUser && variantCount > 1 && onSelectVariant && (
+            <VersionNavigator
+              index={variantIndex}
+              count={variantCount}
+              label="Response variants"
+              onPrevious={variantIndex > 0 ? () => onSelectVariant(message.id, variantIndex - 1) : undefined}
+              onNext={variantIndex < variantCount - 1 ? () => onSelectVariant(message.id, variantIndex + 1) : undefined}
+              buttonClassName={actionButtonClass}
+            />
+          )}
           {isUser ? (
             <>
               <ActionButtonWithTooltip
@@ -280,7 +378,7 @@ const ChatMessage: React.FC<ChatMessageProps> = React.memo(({
                     Cancel
                   </ActionButtonWithTooltip>
                 </>
-              ) : (
+              ) : !isQueued && (
                 <ActionButtonWithTooltip
                   onClick={handleEdit}
                   label="Edit my message"
@@ -330,9 +428,9 @@ const ChatMessage: React.FC<ChatMessageProps> = React.memo(({
 
               {previousUserMessageText && (
                 <ActionButtonWithTooltip
-                  onClick={() => onRetryResponse(message.id, previousUserMessageText)}
-                  label="Retry response"
-                  tooltipText="Retry"
+                  onClick={() => onRetryResponse(message.id)}
+                  label="Regenerate response"
+                  tooltipText="Regenerate"
                   className={actionButtonClass}
                   wrapperClassName="stagger-action-button"
                 >
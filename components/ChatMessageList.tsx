@@ -1,33 +1,62 @@
 
 import React, { useRef, useEffect } from 'react';
 import { Message, SenderType } from '../types';
+import { BranchInfo } from '../utils/messageTree';
 import ChatMessage from './ChatMessage';
 
 interface ChatMessageListProps {
   messages: Message[];
   isLoadingAiResponse: boolean;
+  streamingMessageId: string | null;
   onCopyText: (text: string) => void; // Simplified: no buttonId
   onRateResponse: (messageId:string, rating: 'good' | 'bad') => void;
-  onRetryResponse: (aiMessageId: string, userPromptText: string) => void;
+  onRetryResponse: (aiMessageId: string) => void;
   onSaveEdit: (messageId: string, newText: string) => void;
+  branchInfo: Record<string, BranchInfo>;
+  onSelectBranch: (messageId: string) => void;
+  onSelectVariant: (messageId: string, variantIndex: number) => void;
+  onRetrySend?: (messageId: string) => void;
+  onDiscardSend?: (messageId: string) => void;
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
 }
 
 const ChatMessageList: React.FC<ChatMessageListProps> = ({ 
   messages, 
   isLoadingAiResponse,
+  streamingMessageId,
   onCopyText,
   onRateResponse,
   onRetryResponse,
-  onSaveEdit
+  onSaveEdit,
+  branchInfo,
+  onSelectBranch,
+  onSelectVariant,
+  onRetrySend,
+  onDiscardSend,
+  focusMessageId,
+  onFocusHandled
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Jump to a message picked from search once it has been loaded.
   useEffect(() => {
+    if (!focusMessageId) return;
+    const el = document.getElementById(`message-${focusMessageId}`);
+    if (!el) return;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    el.classList.add('animate-messageFocus');
+    el.addEventListener('animationend', () => el.classList.remove('animate-messageFocus'), { once: true });
+    onFocusHandled?.();
+  }, [focusMessageId, messages, onFocusHandled]);
+
+  useEffect(() => {
+    if (focusMessageId) return;
     const timer = setTimeout(() => {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, 100);
     return () => clearTimeout(timer);
-  }, [messages, isLoadingAiResponse]);
+  }, [messages, isLoadingAiResponse, focusMessageId]);
 
   return (
     <div 
@@ -37,19 +66,17 @@ const ChatMessageList: React.FC<ChatMessageListProps> = ({
       <div className="max-w-2xl mx-auto space-y-9">
         {messages.map((msg, index) => {
           const isOverallLatestMessage = index === messages.length - 1;
-          const isStreamingAiText =
-            isLoadingAiResponse &&
-            isOverallLatestMessage &&
-            msg.sender === SenderType.AI;
+          const isStreamingAiText = isLoadingAiResponse && msg.id === streamingMessageId;
 
           let previousUserMessageText: string | undefined = undefined;
           if (msg.sender === SenderType.AI && index > 0 && messages[index - 1]?.sender === SenderType.USER) {
             previousUserMessageText = messages[index - 1].text;
           }
+          const branch = branchInfo[msg.id];
 
           return (
+            <div key={msg.id} id={`message-${msg.id}`} className="rounded-2xl transition-colors">
             <ChatMessage
-              key={msg.id}
               message={msg}
               isStreamingAiText={isStreamingAiText}
               isOverallLatestMessage={isOverallLatestMessage} // Pass the new prop
@@ -58,7 +85,16 @@ const ChatMessageList: React.FC<ChatMessageListProps> = ({
               onRetryResponse={onRetryResponse}
               onSaveEdit={onSaveEdit}
               previousUserMessageText={previousUserMessageText}
+              branchIndex={branch?.index}
+              branchCount={branch?.count}
+              previousBranchId={branch?.siblingIds[branch.index - 1]}
+              nextBranchId={branch?.siblingIds[branch.index + 1]}
+              onSelectBranch={onSelectBranch}
+              onSelectVariant={onSelectVariant}
+              onRetrySend={onRetrySend}
+              onDiscardSend={onDiscardSend}
             />
+            </div>
           );
         })}
         <div ref={messagesEndRef} />
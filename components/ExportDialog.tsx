@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { IconClose } from '../constants';
+import { ExportFormat } from '../types';
+import { downloadChatExport } from '../services/exportService';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The chats to export; empty or omitted to export every chat.
+  sessions?: { id: string; title: string }[];
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'Plain text, easy to read or paste anywhere.' },
+  { value: 'json', label: 'JSON', description: 'Everything, including edits, variants and feedback. Can be imported back.' },
+  { value: 'html', label: 'Printable page', description: 'A standalone page you can open or print to PDF.' },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, sessions = [] }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await downloadChatExport(format, sessions.map(s => s.id));
+      onClose();
+    } catch (e: any) {
+      console.error("Export error:", e);
+      setError(e.message || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[60] p-4 animate-fadeIn" onClick={onClose}>
+      <div
+        className="bg-[#393641] p-6 rounded-3xl shadow-2xl w-full max-w-sm border border-[#4A4754] animate-scaleIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-[#EAE6F0]">Export</h2>
+          <button onClick={onClose} className="p-1 text-[#A09CB0] hover:text-[#FF8DC7]" aria-label="Close export">
+            <IconClose className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-[#A09CB0] mb-4 truncate">{sessions.length === 1 ? `"${sessions[0].title}"` : sessions.length ? `${sessions.length} chats` : 'All of your chats'}</p>
+
+        <div className="space-y-2 mb-6">
+          {FORMAT_OPTIONS.map(option => (
+            <label
+              key={option.value}
+              className={`block p-3 rounded-2xl border cursor-pointer transition-all ${format === option.value ? 'border-[#FF8DC7] bg-[#4A4754]' : 'border-[#4A4754] hover:bg-[#4A4754]/50'}`}
+            >
+              <input type="radio" name="export-format" value={option.value} checked={format === option.value} onChange={() => setFormat(option.value)} className="sr-only" />
+              <span className="block text-sm font-medium text-[#EAE6F0]">{option.label}</span>
+              <span className="block text-[11px] text-[#A09CB0]">{option.description}</span>
+            </label>
+          ))}
+        </div>
+
+        {error && <p className="text-xs text-[#FF8585] mb-3">{error}</p>}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-sm font-semibold text-[#EAE6F0] bg-[#4A4754] hover:bg-[#53505F] rounded-2xl transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-5 py-2.5 text-sm font-semibold text-white bg-[#FF8DC7] hover:bg-opacity-90 rounded-2xl disabled:opacity-50 shadow-lg transition-all active:scale-95"
+          >
+            {isExporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
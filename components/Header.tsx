@@ -1,14 +1,18 @@
 
 import React from 'react';
 import { IconOpenSidebar, IconHeart, IconLayoutSidebar } from '../constants'; // Added IconLayoutSidebar
+import { ChatSettings } from '../types';
+import ModelPicker from './ModelPicker';
 
 interface HeaderProps {
   onToggleSidebar: () => void;
   onNewChat: () => void;
   isSidebarOpen: boolean; // Added prop to know sidebar state
+  chatSettings: ChatSettings;
+  onChangeChatSettings: (changes: Pick<ChatSettings, 'model' | 'temperature'>) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onToggleSidebar, onNewChat, isSidebarOpen }) => {
+const Header: React.FC<HeaderProps> = ({ onToggleSidebar, onNewChat, isSidebarOpen, chatSettings, onChangeChatSettings }) => {
   return (
     <header className="bg-[#2E2B36] p-3 sm:p-4 flex items-center justify-between sticky top-0 z-20"> {/* Removed border, updated background */}
       {/* Left Button: Menu Toggle */}
@@ -29,7 +33,8 @@ const Header: React.FC<HeaderProps> = ({ onToggleSidebar, onNewChat, isSidebarOp
         <span className="text-[#EAE6F0] text-lg sm:text-xl font-normal truncate">SuruGPT</span> {/* font-semibold to font-normal */}
       </div>
       
-      {/* Right Button: New Chat */}
+      {/* Right: model picker and New Chat */}
+      <ModelPicker settings={chatSettings} onChange={onChangeChatSettings} />
       <button
         onClick={onNewChat}
         className="p-1.5 sm:p-2 text-[#EAE6F0] hover:text-[#FF8DC7] flex-shrink-0 animate-subtleBounceOnHover" 
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { IconClose } from '../constants';
+import { ChatImportResult } from '../types';
+import { importChatArchive } from '../services/importService';
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ isOpen, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [summarize, setSummarize] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ChatImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isImporting = progress !== null && result === null && error === null;
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setProgress(null);
+      setResult(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    if (!isImporting) onClose();
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setError(null);
+    setResult(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const importResult = await importChatArchive(file, {
+        summarize,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      // Imported chats reach the Sidebar through the sessions listener.
+      setResult(importResult);
+    } catch (e: any) {
+      console.error("Import error:", e);
+      setError(e.message || 'Import failed.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[60] p-4 animate-fadeIn" onClick={handleClose}>
+      <div
+        className="bg-[#393641] p-6 rounded-3xl shadow-2xl w-full max-w-sm border border-[#4A4754] animate-scaleIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-[#EAE6F0]">Import chats</h2>
+          <button onClick={handleClose} disabled={isImporting} className="p-1 text-[#A09CB0] hover:text-[#FF8DC7] disabled:opacity-50" aria-label="Close import">
+            <IconClose className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-[#A09CB0] mb-4">ChatGPT's conversations.json or a SuruGPT JSON export. Original dates are kept.</p>
+
+        <label className={`block p-3 mb-3 rounded-2xl border border-dashed cursor-pointer transition-all ${file ? 'border-[#FF8DC7] bg-[#4A4754]' : 'border-[#4A4754] hover:bg-[#4A4754]/50'}`}>
+          <input
+            type="file"
+            accept=".json,application/json"
+            disabled={isImporting}
+            onChange={(e) => { setFile(e.target.files?.[0] || null); setResult(null); setError(null); setProgress(null); }}
+            className="sr-only"
+          />
+          <span className="block text-sm font-medium text-[#EAE6F0] truncate">{file ? file.name : 'Choose a file…'}</span>
+          {file && <span className="block text-[11px] text-[#A09CB0]">{(file.size / (1024 * 1024)).toFixed(1)} MB</span>}
+        </label>
+
+        <label className="flex items-start mb-5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={summarize}
+            disabled={isImporting}
+            onChange={(e) => setSummarize(e.target.checked)}
+            className="mt-0.5 mr-2 accent-[#FF8DC7]"
+          />
+          <span className="text-xs text-[#EAE6F0]">
+            Add to memory
+            <span className="block text-[11px] text-[#A09CB0]">Summarize each chat so Suru remembers it. Slower for large archives.</span>
+          </span>
+        </label>
+
+        {progress && progress.total > 0 && !result && !error && (
+          <div className="mb-4">
+            <div className="h-1.5 rounded-full bg-[#4A4754] overflow-hidden">
+              <div className="h-full bg-[#FF8DC7] transition-all" style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }} />
+            </div>
+            <p className="mt-1 text-[11px] text-[#A09CB0]">{progress.done} of {progress.total} conversations</p>
+          </div>
+        )}
+
+        {result && (
+          <div className="mb-4 text-xs text-[#EAE6F0] space-y-1">
+            <p>Imported {result.imported} chat{result.imported === 1 ? '' : 's'}{result.skipped ? `, skipped ${result.skipped} already here or empty` : ''}.</p>
+            {summarize && result.imported > 0 && <p className="text-[#A09CB0]">{result.summarized} added to memory.</p>}
+            {result.failed.length > 0 && (
+              <p className="text-[#FF8585]">
+                {result.failed.length} failed: {result.failed.slice(0, 3).map(f => f.title).join(', ')}{result.failed.length > 3 ? '…' : ''}
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-xs text-[#FF8585] mb-3">{error}</p>}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={handleClose}
+            disabled={isImporting}
+            className="px-5 py-2.5 text-sm font-semibold text-[#EAE6F0] bg-[#4A4754] hover:bg-[#53505F] rounded-2xl disabled:opacity-50 transition-all"
+          >
+            {result ? 'Done' : 'Cancel'}
+          </button>
+          {!result && (
+            <button
+              onClick={handleImport}
+              disabled={!file || isImporting}
+              className="px-5 py-2.5 text-sm font-semibold text-white bg-[#FF8DC7] hover:bg-opacity-90 rounded-2xl disabled:opacity-50 shadow-lg transition-all active:scale-95"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
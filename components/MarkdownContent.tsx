@@ -0,0 +1,121 @@
+import React, { useState, useRef, useEffect } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { PluggableList } from 'unified';
+import { IconClipboardDocumentList, IconCheck } from '../constants';
+
+// Raw HTML in model output is never rendered (react-markdown escapes it), and
+// link URLs go through react-markdown's default sanitizer.
+const remarkPlugins: PluggableList = [remarkGfm, remarkMath];
+const rehypePlugins: PluggableList = [rehypeKatex, [rehypeHighlight, { detect: true }]];
+
+const textOf = (node: React.ReactNode): string => {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(textOf).join('');
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) return textOf(node.props.children);
+  return '';
+};
+
+const CodeBlock: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const [copied, setCopied] = useState(false);
+  const timeoutRef = useRef<number | null>(null);
+  const codeElement = React.Children.toArray(children)[0];
+  const className = React.isValidElement<{ className?: string }>(codeElement) ? codeElement.props.className || '' : '';
+  const language = /language-([\w+-]+)/.exec(className)?.[1];
+
+  useEffect(() => () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+  }, []);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(textOf(children).replace(/\n$/, ''));
+    setCopied(true);
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="my-3 rounded-xl overflow-hidden border border-[#4A4754] bg-[#201F23]">
+      <div className="flex items-center justify-between px-3 py-1 bg-[#393641] text-[10px] text-[#A09CB0]">
+        <span>{language || 'code'}</span>
+        <button onClick={handleCopy} className="flex items-center hover:text-[#FF8DC7] transition-colors" aria-label="Copy code">
+          {copied ? <IconCheck className="w-3.5 h-3.5 mr-1 text-[#FF8DC7]" /> : <IconClipboardDocumentList className="w-3.5 h-3.5 mr-1" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed">{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-[#FF8DC7] underline underline-offset-2">{children}</a>
+  ),
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+// Memoised on the text so already-rendered blocks are not re-parsed while
+// later text is still typing out.
+const MarkdownBlock: React.FC<{ text: string }> = React.memo(({ text }) => (
+  <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins} components={components}>
+    {text}
+  </ReactMarkdown>
+));
+
+// Splits streaming text at the last block boundary outside a code fence. Only
+// the part before it is complete enough to render as markdown.
+export const splitStableMarkdown = (text: string): { stable: string; pending: string } => {
+  let inFence = false;
+  let boundary = 0;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      // A closing fence ends a block.
+      if (!inFence) boundary = Math.min(offset + line.length + 1, text.length);
+    } else if (!inFence && line.trim() === '' && offset > 0) {
+      boundary = offset;
+    }
+    offset += line.length + 1;
+  }
+  return { stable: text.slice(0, boundary), pending: text.slice(boundary) };
+};
+
+interface MarkdownContentProps {
+  text: string;
+  // While true, the unfinished trailing block is shown as plain text.
+  isStreaming?: boolean;
+  cursor?: React.ReactNode;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, isStreaming, cursor }) => {
+  if (!isStreaming) {
+    return <div className="markdown-body text-sm leading-relaxed text-[#EAE6F0]"><MarkdownBlock text={text} /></div>;
+  }
+  const { stable, pending } = splitStableMarkdown(text);
+  const pendingText = pending.replace(/^\n+/, '');
+  const openFence = /^\s*(```|~~~)[^\n]*\n?/.exec(pendingText);
+  return (
+    <div className="markdown-body text-sm leading-relaxed text-[#EAE6F0]">
+      {stable && <MarkdownBlock text={stable} />}
+      {openFence ? (
+        <pre className="my-3 p-3 rounded-xl border border-[#4A4754] bg-[#201F23] overflow-x-auto text-xs leading-relaxed">
+          <code>{pendingText.slice(openFence[0].length)}</code>{cursor}
+        </pre>
+      ) : (
+        <p className="whitespace-pre-wrap">{pendingText}{cursor}</p>
+      )}
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { IconClose, IconPencil, IconTrash } from '../constants';
+import { ChatSession, StoredSessionSummary } from '../types';
+import { getSessionSummaries, forgetSessionMemoryInFirestore } from '../services/firebaseService';
+import { updateMemorySummary } from '../services/openAIService';
+
+interface MemoryManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  chatSessions: ChatSession[];
+  onSetSessionMemoryEnabled: (sessionId: string, enabled: boolean) => Promise<void>;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+
+const MemoryManagerDialog: React.FC<MemoryManagerDialogProps> = ({
+  isOpen,
+  onClose,
+  userId,
+  chatSessions,
+  onSetSessionMemoryEnabled,
+}) => {
+  const [summaries, setSummaries] = useState<StoredSessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError(null);
+    getSessionSummaries(userId).then(result => {
+      setSummaries(result);
+      setIsLoading(false);
+    });
+  }, [isOpen, userId]);
+
+  if (!isOpen) return null;
+
+  const sessionTitle = (sessionId: string) =>
+    chatSessions.find(s => s.id === sessionId)?.title || 'Deleted chat';
+  const disabledSessions = chatSessions.filter(s => s.memoryDisabled);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      console.error("Memory manager error:", e);
+      setError(e.message || 'Something went wrong.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveEdit = (summary: StoredSessionSummary) => runAction(summary.id, async () => {
+    if (!editText.trim() || editText.trim() === summary.summaryText) {
+      setEditingId(null);
+      return;
+    }
+    const savedText = await updateMemorySummary(summary.sessionId, editText.trim());
+    setSummaries(prev => prev.map(s => s.id === summary.id ? { ...s, summaryText: savedText, userEdited: true } : s));
+    setEditingId(null);
+  });
+
+  const handleDelete = (summary: StoredSessionSummary) => runAction(summary.id, async () => {
+    await forgetSessionMemoryInFirestore(userId, summary.sessionId);
+    setSummaries(prev => prev.filter(s => s.id !== summary.id));
+  });
+
+  const handleTurnOff = (summary: StoredSessionSummary) => runAction(summary.id, async () => {
+    await onSetSessionMemoryEnabled(summary.sessionId, false);
+    setSummaries(prev => prev.filter(s => s.id !== summary.id));
+  });
+
+  const actionClass = "text-[10px] text-[#A09CB0] hover:text-[#FF8DC7] disabled:opacity-50 flex items-center";
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[60] p-4 animate-fadeIn" onClick={onClose}>
+      <div
+        className="bg-[#393641] p-6 rounded-3xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col border border-[#4A4754] animate-scaleIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-[#EAE6F0]">Memory</h2>
+          <button onClick={onClose} className="p-1 text-[#A09CB0] hover:text-[#FF8DC7]" aria-label="Close memory manager">
+            <IconClose className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-[#A09CB0] mb-4">What Suru remembers from your past chats.</p>
+
+        {error && <p className="text-xs text-[#FF8585] mb-3">{error}</p>}
+
+        <div className="flex-grow overflow-y-auto pr-1 space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-[#A09CB0]">Loading memories...</p>
+          ) : summaries.length === 0 ? (
+            <p className="text-sm text-[#A09CB0]">Nothing remembered yet.</p>
+          ) : summaries.map(summary => (
+            <div key={summary.id} className="bg-[#4A4754] rounded-2xl p-3">
+              <div className="flex items-center justify-between mb-1 gap-2">
+                <span className="text-xs font-medium text-[#EAE6F0] truncate">{sessionTitle(summary.sessionId)}</span>
+                <span className="text-[10px] text-[#A09CB0] flex-shrink-0">
+                  {formatDate(summary.chatDate ?? summary.createdAt)}{summary.userEdited ? ' · edited' : ''}
+                </span>
+              </div>
+              {editingId === summary.id ? (
+                <textarea
+                  autoFocus
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  rows={3}
+                  className="w-full bg-[#393641] text-sm text-[#EAE6F0] rounded-xl p-2 border border-[#5A5666] focus:outline-none focus:border-[#FF8DC7] resize-none"
+                />
+              ) : (
+                <p className="text-sm text-[#C0BCCF] leading-relaxed">{summary.summaryText}</p>
+              )}
+              <div className="mt-2 flex items-center space-x-3">
+                {editingId === summary.id ? (
+                  <>
+                    <button onClick={() => handleSaveEdit(summary)} disabled={busyId === summary.id} className={`${actionClass} text-[#86E8B3]`}>
+                      {busyId === summary.id ? 'Saving...' : 'Save'}
+                    </button>
+                    <button onClick={() => setEditingId(null)} className={actionClass}>Cancel</button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => { setEditingId(summary.id); setEditText(summary.summaryText); }} disabled={busyId === summary.id} className={actionClass}>
+                      <IconPencil className="w-3 h-3 mr-1" /> Edit
+                    </button>
+                    <button onClick={() => handleDelete(summary)} disabled={busyId === summary.id} className={actionClass}>
+                      <IconTrash className="w-3 h-3 mr-1" /> Forget
+                    </button>
+                    {chatSessions.some(s => s.id === summary.sessionId) && (
+                      <button onClick={() => handleTurnOff(summary)} disabled={busyId === summary.id} className={actionClass}>
+                        Turn off for this chat
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {disabledSessions.length > 0 && (
+            <div className="pt-2">
+              <h3 className="text-[10px] text-[#A09CB0] uppercase font-bold mb-2 px-1 tracking-wider">Memory off</h3>
+              {disabledSessions.map(session => (
+                <div key={session.id} className="flex items-center justify-between px-1 py-1.5 text-xs">
+                  <span className="truncate text-[#C0BCCF]">{session.title}</span>
+                  <button
+                    onClick={() => runAction(session.id, () => onSetSessionMemoryEnabled(session.id, true))}
+                    disabled={busyId === session.id}
+                    className={`${actionClass} flex-shrink-0 ml-2`}
+                  >
+                    Turn on
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryManagerDialog;
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { ChatModelCatalog, ChatSettings } from '../types';
+import { IconAdjustments, IconCheck } from '../constants';
+import { fetchChatModels } from '../services/modelService';
+
+interface ModelPickerProps {
+  settings: ChatSettings;
+  onChange: (changes: Pick<ChatSettings, 'model' | 'temperature'>) => void;
+}
+
+const formatTokens = (tokens: number) => tokens >= 1_000_000 ? `${tokens / 1_000_000}M` : `${Math.round(tokens / 1000)}K`;
+
+// Header control for the open chat's model and temperature (or the next new chat's).
+const ModelPicker: React.FC<ModelPickerProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [catalog, setCatalog] = useState<ChatModelCatalog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The slider moves freely and is saved once it is let go.
+  const [draftTemperature, setDraftTemperature] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchChatModels()
+      .then(setCatalog)
+      .catch(e => setError(e.message || 'Could not load models.'));
+  }, []);
+
+  const modelId = settings.model ?? catalog?.defaultModel;
+  const model = catalog?.models.find(m => m.id === modelId);
+  const temperature = draftTemperature ?? settings.temperature ?? catalog?.defaultTemperature ?? 1;
+
+  const commitTemperature = () => {
+    if (draftTemperature === null) return;
+    if (draftTemperature !== settings.temperature) onChange({ temperature: draftTemperature });
+    setDraftTemperature(null);
+  };
+
+  const close = () => {
+    commitTemperature();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        onClick={() => isOpen ? close() : setIsOpen(true)}
+        className="flex items-center space-x-1.5 px-2 py-1 text-xs text-[#A09CB0] hover:text-[#FF8DC7] rounded-lg transition-colors"
+        aria-label="Model and temperature"
+        aria-expanded={isOpen}
+      >
+        <IconAdjustments className="w-4 h-4" />
+        <span className="hidden sm:inline max-w-[7rem] truncate">{model?.label ?? modelId ?? 'Model'}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={close} />
+          <div className="absolute right-0 top-full mt-2 w-72 bg-[#201F23] border border-[#4A4754] rounded-2xl shadow-2xl p-3 z-50 animate-scaleIn text-xs">
+            {error && <p className="text-[#FF8585] mb-2">{error}</p>}
+            {!catalog && !error && <p className="text-[#A09CB0] py-2 text-center">Loading models...</p>}
+            {catalog && (
+              <>
+                <p className="text-[10px] uppercase tracking-wide text-[#A09CB0] mb-1.5 px-1">Model</p>
+                <div className="space-y-0.5 mb-3" role="radiogroup" aria-label="Model">
+                  {catalog.models.map(option => (
+                    <button
+                      key={option.id}
+                      role="radio"
+                      aria-checked={option.id === modelId}
+                      onClick={() => option.id !== modelId && onChange({ model: option.id })}
+                      className="w-full flex items-start justify-between gap-2 text-left px-2 py-1.5 rounded-lg hover:bg-[#393641]"
+                    >
+                      <span className="min-w-0">
+                        <span className={`block text-sm ${option.id === modelId ? 'text-[#FF8DC7]' : 'text-[#EAE6F0]'}`}>{option.label}</span>
+                        <span className="block text-[11px] text-[#A09CB0]">
+                          {option.description} {formatTokens(option.contextWindow)} context, replies up to {formatTokens(option.maxOutputTokens)} tokens.
+                        </span>
+                      </span>
+                      {option.id === modelId && <IconCheck className="w-4 h-4 text-[#FF8DC7] flex-shrink-0 mt-0.5" />}
+                    </button>
+                  ))}
+                </div>
+                <div className="px-1">
+                  <div className="flex items-center justify-between mb-1">
+                    <label htmlFor="chat-temperature" className="text-[10px] uppercase tracking-wide text-[#A09CB0]">Temperature</label>
+                    <span className="text-[#EAE6F0] tabular-nums">{temperature.toFixed(1)}</span>
+                  </div>
+                  <input
+                    id="chat-temperature"
+                    type="range"
+                    min={catalog.temperatureRange.min}
+                    max={catalog.temperatureRange.max}
+                    step={0.1}
+                    value={temperature}
+                    onChange={(e) => setDraftTemperature(Number(e.target.value))}
+                    onPointerUp={commitTemperature}
+                    onKeyUp={commitTemperature}
+                    className="w-full accent-[#FF8DC7]"
+                  />
+                  <div className="flex justify-between text-[10px] text-[#A09CB0]">
+                    <span>Focused</span>
+                    <span>Creative</span>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ModelPicker;
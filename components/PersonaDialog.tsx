@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { IconClose, IconPencil } from '../constants';
+import { Persona } from '../types';
+import { DEFAULT_PERSONA_NAME, PERSONA_NAME_MAX_LENGTH, PERSONA_PROMPT_MAX_LENGTH } from '../utils/personas';
+
+interface PersonaDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  personas: Persona[];
+  onCreate: (name: string, prompt: string) => Promise<Persona>;
+  onUpdate: (personaId: string, name: string, prompt: string) => Promise<void>;
+  onDelete: (personaId: string) => Promise<void>;
+}
+
+// The persona being edited: an existing one, or 'new' for the create form.
+type EditingPersona = { id: string | 'new'; name: string; prompt: string };
+
+const PersonaDialog: React.FC<PersonaDialogProps> = ({ isOpen, onClose, personas, onCreate, onUpdate, onDelete }) => {
+  const [editing, setEditing] = useState<EditingPersona | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditing(null);
+      setConfirmingDeleteId(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setEditing(null);
+      setConfirmingDeleteId(null);
+    } catch (e: any) {
+      console.error("Persona error:", e);
+      setError(e.message || 'Something went wrong.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editing || !editing.name.trim() || !editing.prompt.trim()) return;
+    const { id, name, prompt } = editing;
+    run(() => id === 'new' ? onCreate(name, prompt) : onUpdate(id, name, prompt));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[60] p-4 animate-fadeIn" onClick={onClose}>
+      <div
+        className="bg-[#393641] p-6 rounded-3xl shadow-2xl w-full max-w-md border border-[#4A4754] animate-scaleIn flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-[#EAE6F0]">Personas</h2>
+          <button onClick={onClose} className="p-1 text-[#A09CB0] hover:text-[#FF8DC7]" aria-label="Close personas">
+            <IconClose className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-[#A09CB0] mb-4">A persona is the voice Suru talks in. Pick one when you start a new chat; editing it changes every chat that uses it.</p>
+
+        {editing ? (
+          <div className="flex flex-col flex-grow min-h-0 mb-4">
+            <input
+              autoFocus
+              type="text"
+              value={editing.name}
+              maxLength={PERSONA_NAME_MAX_LENGTH}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              placeholder="Name"
+              className="w-full px-4 py-3 bg-[#4A4754] border border-[#5A5666] rounded-2xl text-sm text-[#EAE6F0] focus:outline-none focus:ring-2 focus:ring-[#FF8DC7] mb-3 transition-all"
+            />
+            <textarea
+              value={editing.prompt}
+              maxLength={PERSONA_PROMPT_MAX_LENGTH}
+              onChange={(e) => setEditing({ ...editing, prompt: e.target.value })}
+              placeholder="How should Suru talk? e.g. You're a patient tutor who explains things step by step."
+              rows={8}
+              className="w-full px-4 py-3 bg-[#4A4754] border border-[#5A5666] rounded-2xl text-sm text-[#EAE6F0] focus:outline-none focus:ring-2 focus:ring-[#FF8DC7] resize-none transition-all"
+            />
+            <p className="text-[11px] text-[#A09CB0] text-right mt-1">{editing.prompt.length}/{PERSONA_PROMPT_MAX_LENGTH}</p>
+          </div>
+        ) : (
+          <div className="flex-grow overflow-y-auto -mx-2 px-2 mb-4">
+            <div className="flex items-center justify-between gap-3 p-2 rounded-xl">
+              <div className="min-w-0">
+                <p className="text-sm text-[#EAE6F0] truncate">{DEFAULT_PERSONA_NAME}</p>
+                <p className="text-[11px] text-[#A09CB0]">Built in</p>
+              </div>
+            </div>
+            {personas.map(persona => (
+              <div key={persona.id} className="flex items-center justify-between gap-3 p-2 rounded-xl hover:bg-[#4A4754]/50">
+                <div className="min-w-0">
+                  <p className="text-sm text-[#EAE6F0] truncate">{persona.name}</p>
+                  <p className="text-[11px] text-[#A09CB0] truncate">{persona.prompt}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                  <button
+                    onClick={() => setEditing({ id: persona.id, name: persona.name, prompt: persona.prompt })}
+                    disabled={isBusy}
+                    className="p-1.5 rounded-xl text-[#A09CB0] hover:text-[#FF8DC7] hover:bg-[#4A4754] disabled:opacity-50"
+                    aria-label={`Edit ${persona.name}`}
+                  >
+                    <IconPencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => confirmingDeleteId === persona.id ? run(() => onDelete(persona.id)) : setConfirmingDeleteId(persona.id)}
+                    disabled={isBusy}
+                    className={`px-3 py-1.5 rounded-xl disabled:opacity-50 ${confirmingDeleteId === persona.id ? 'bg-[#FF6B6B] hover:bg-[#E05252] text-white' : 'text-[#FF8585] hover:bg-[#4A4754]'}`}
+                  >
+                    {isBusy && confirmingDeleteId === persona.id ? 'Deleting...' : confirmingDeleteId === persona.id ? 'Confirm' : 'Delete'}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-xs text-[#FF8585] mb-3">{error}</p>}
+
+        <div className="flex justify-end space-x-3">
+          {editing ? (
+            <>
+              <button
+                onClick={() => { setEditing(null); setError(null); }}
+                className="px-5 py-2.5 text-sm font-semibold text-[#EAE6F0] bg-[#4A4754] hover:bg-[#53505F] rounded-2xl transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isBusy || !editing.name.trim() || !editing.prompt.trim()}
+                className="px-5 py-2.5 text-sm font-semibold text-white bg-[#FF8DC7] hover:bg-opacity-90 rounded-2xl disabled:opacity-50 shadow-lg transition-all active:scale-95"
+              >
+                {isBusy ? 'Saving...' : 'Save'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => { setEditing({ id: 'new', name: '', prompt: '' }); setConfirmingDeleteId(null); }}
+                disabled={isBusy}
+                className="px-5 py-2.5 text-sm font-semibold text-[#EAE6F0] bg-[#4A4754] hover:bg-[#53505F] rounded-2xl disabled:opacity-50 transition-all"
+              >
+                New persona
+              </button>
+              <button
+                onClick={onClose}
+                className="px-5 py-2.5 text-sm font-semibold text-white bg-[#FF8DC7] hover:bg-opacity-90 rounded-2xl shadow-lg transition-all active:scale-95"
+              >
+                Done
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaDialog;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Persona } from '../types';
+import { DEFAULT_PERSONA_NAME } from '../utils/personas';
+
+interface PersonaPickerProps {
+  personas: Persona[];
+  selectedId: string | null; // null is the built-in persona
+  onSelect: (personaId: string | null) => void;
+  onManage: () => void;
+}
+
+// Shown under the input of a new chat; the chat keeps the persona it was started with.
+const PersonaPicker: React.FC<PersonaPickerProps> = ({ personas, selectedId, onSelect, onManage }) => {
+  const options: { id: string | null; name: string }[] = [{ id: null, name: DEFAULT_PERSONA_NAME }, ...personas];
+  // A persona deleted elsewhere falls back to the built-in one.
+  const activeId = personas.some(p => p.id === selectedId) ? selectedId : null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-xs" role="radiogroup" aria-label="Persona for this chat">
+      {options.map(option => (
+        <button
+          key={option.id ?? 'default'}
+          role="radio"
+          aria-checked={activeId === option.id}
+          onClick={() => onSelect(option.id)}
+          className={`max-w-[10rem] truncate px-3 py-1.5 rounded-full border transition-colors ${
+            activeId === option.id
+              ? 'border-[#FF8DC7] text-[#FF8DC7] bg-[#FF8DC7]/10'
+              : 'border-[#4A4754] text-[#A09CB0] hover:text-[#EAE6F0] hover:border-[#5A5666]'
+          }`}
+        >
+          {option.name}
+        </button>
+      ))}
+      <button onClick={onManage} className="px-2 py-1.5 text-[#A09CB0] hover:text-[#FF8DC7] transition-colors">
+        {personas.length ? 'Manage' : '+ New persona'}
+      </button>
+    </div>
+  );
+};
+
+export default PersonaPicker;
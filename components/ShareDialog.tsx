@@ -0,0 +1,113 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { IconClose, IconCheck, IconClipboardDocumentList } from '../constants';
+import { shareChatSession, revokeChatShare, shareUrlFor } from '../services/shareService';
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: { id: string; title: string; shareId?: string } | null;
+  // Reports the new share id, or undefined once the link is revoked.
+  onShareChanged: (sessionId: string, shareId: string | undefined) => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ isOpen, onClose, session, onShareChanged }) => {
+  const [pending, setPending] = useState<'share' | 'revoke' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const copiedTimeoutRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      setCopied(false);
+    }
+  }, [isOpen]);
+
+  useEffect(() => () => {
+    if (copiedTimeoutRef.current) clearTimeout(copiedTimeoutRef.current);
+  }, []);
+
+  if (!isOpen || !session) return null;
+
+  const shareUrl = session.shareId ? shareUrlFor(session.shareId) : null;
+
+  const run = async (action: 'share' | 'revoke') => {
+    setPending(action);
+    setError(null);
+    try {
+      if (action === 'share') {
+        onShareChanged(session.id, await shareChatSession(session.id));
+      } else {
+        await revokeChatShare(session.id);
+        onShareChanged(session.id, undefined);
+      }
+    } catch (e: any) {
+      console.error("Share error:", e);
+      setError(e.message || 'Something went wrong.');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!shareUrl) return;
+    navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+    if (copiedTimeoutRef.current) clearTimeout(copiedTimeoutRef.current);
+    copiedTimeoutRef.current = window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[60] p-4 animate-fadeIn" onClick={onClose}>
+      <div
+        className="bg-[#393641] p-6 rounded-3xl shadow-2xl w-full max-w-sm border border-[#4A4754] animate-scaleIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-[#EAE6F0]">Share</h2>
+          <button onClick={onClose} className="p-1 text-[#A09CB0] hover:text-[#FF8DC7]" aria-label="Close share">
+            <IconClose className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-[#A09CB0] mb-4 truncate">"{session.title}"</p>
+
+        {shareUrl ? (
+          <>
+            <div className="flex items-center mb-2 p-2 pl-3 rounded-2xl border border-[#4A4754] bg-[#2E2B36]">
+              <input readOnly value={shareUrl} onFocus={(e) => e.target.select()} className="flex-grow min-w-0 bg-transparent text-xs text-[#EAE6F0] focus:outline-none" aria-label="Share link" />
+              <button onClick={handleCopy} className="ml-2 p-1.5 text-[#A09CB0] hover:text-[#FF8DC7] transition-colors" aria-label="Copy link">
+                {copied ? <IconCheck className="w-4 h-4 text-[#FF8DC7]" /> : <IconClipboardDocumentList className="w-4 h-4" />}
+              </button>
+            </div>
+            <p className="text-[11px] text-[#A09CB0] mb-6">Anyone with the link can read this chat as it was when you shared it. New messages aren't included until you update the link.</p>
+          </>
+        ) : (
+          <p className="text-xs text-[#EAE6F0] mb-6">Create a read-only link to this chat. Anyone with the link can read it without an account; you can turn it off at any time.</p>
+        )}
+
+        {error && <p className="text-xs text-[#FF8585] mb-3">{error}</p>}
+
+        <div className="flex justify-end space-x-3">
+          {shareUrl && (
+            <button
+              onClick={() => run('revoke')}
+              disabled={pending !== null}
+              className="px-5 py-2.5 text-sm font-semibold text-[#FF8585] bg-[#4A4754] hover:bg-[#53505F] rounded-2xl disabled:opacity-50 transition-all"
+            >
+              {pending === 'revoke' ? 'Stopping...' : 'Stop sharing'}
+            </button>
+          )}
+          <button
+            onClick={() => run('share')}
+            disabled={pending !== null}
+            className="px-5 py-2.5 text-sm font-semibold text-white bg-[#FF8DC7] hover:bg-opacity-90 rounded-2xl disabled:opacity-50 shadow-lg transition-all active:scale-95"
+          >
+            {pending === 'share' ? 'Saving...' : shareUrl ? 'Update link' : 'Create link'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
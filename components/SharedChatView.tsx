@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { Message, SharedChat } from '../types';
+import { IconHeart } from '../constants';
+import { fetchSharedChat } from '../services/shareService';
+import ChatMessage from './ChatMessage';
+
+const noop = () => {};
+
+// Read-only page for a shared chat link. Rendered instead of the app, so it
+// needs no account and never touches Firebase directly.
+const SharedChatView: React.FC<{ shareId: string }> = ({ shareId }) => {
+  const [chat, setChat] = useState<SharedChat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSharedChat(shareId)
+      .then(sharedChat => {
+        setChat(sharedChat);
+        document.title = `${sharedChat.title} · SuruGPT`;
+      })
+      .catch((e: any) => setError(e.message || 'Could not load this chat.'));
+  }, [shareId]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen bg-[#2E2B36] text-[#EAE6F0] p-6 text-center">
+        <IconHeart className="w-10 h-10 mb-4 text-[#FFD1DC]" />
+        <p className="text-lg mb-1">This chat isn't available</p>
+        <p className="text-sm text-[#A09CB0]">{error}</p>
+      </div>
+    );
+  }
+
+  if (!chat) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen bg-[#2E2B36] text-[#EAE6F0]">
+        <IconHeart className="w-10 h-10 mb-4 text-[#FFD1DC] animate-pulse" style={{ filter: 'blur(0.5px)' }} />
+        <p className="text-lg">Loading shared chat...</p>
+      </div>
+    );
+  }
+
+  const messages: Message[] = chat.messages.map(m => ({
+    id: m.id,
+    sender: m.sender,
+    text: m.text,
+    timestamp: new Date(m.timestamp),
+    feedback: null,
+  }));
+  const sharedOn = new Date(chat.sharedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  return (
+    <div className="flex flex-col h-full bg-[#2E2B36] overflow-y-auto animate-fadeInUpSlightly">
+      <header className="px-6 py-4 border-b border-[#4A4754]">
+        <h1 className="text-lg font-semibold text-[#EAE6F0] truncate">{chat.title}</h1>
+        <p className="text-xs text-[#A09CB0]">Shared from SuruGPT on {sharedOn} · read-only</p>
+      </header>
+      <main className="flex-grow w-full max-w-2xl mx-auto px-6 py-11 space-y-9">
+        {messages.map(message => (
+          <ChatMessage
+            key={message.id}
+            message={message}
+            isOverallLatestMessage={false}
+            onCopyText={noop}
+            onRateResponse={noop}
+            onRetryResponse={noop}
+            onSaveEdit={noop}
+            readOnly
+          />
+        ))}
+      </main>
+    </div>
+  );
+};
+
+export default SharedChatView;
@@ -1,17 +1,33 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { Timestamp } from 'firebase/firestore';
-import { IconLayoutSidebar, IconHeart, IconSearch, IconPencil, IconEllipsisVertical, IconTrash, IconNewChat, IconClose } from '../constants';
-import { ChatSession } from '../types';
-import { debounce } from '../utils/helpers';
+import { IconLayoutSidebar, IconHeart, IconSearch, IconPencil, IconEllipsisVertical, IconTrash, IconNewChat, IconClose, IconSparkles, IconDownload, IconUpload, IconLink, IconPin, IconFolder, IconFolderPlus, IconTag, IconChevronDown, IconCheckCircle } from '../constants';
+import { ChatSession, ChatSearchResult, SearchMode, ChatFolder, ChatSessionOrganization } from '../types';
+import { debounce, normalizeTag, parseTagFilter } from '../utils/helpers';
+import { searchChats } from '../services/searchService';
 
 interface SidebarProps {
   isOpen: boolean; onClose: () => void; onNewChat: () => void;
   chatSessions: ChatSession[]; activeChatId: string | null;
-  onSelectChat: (chatId: string) => void;
+  onSelectChat: (chatId: string, focusMessageId?: string) => void;
   onRequestDeleteConfirmation: (sessionId: string, sessionTitle: string) => void;
   onRenameChatSession: (sessionId: string, newTitle: string) => Promise<void>;
   isLoading?: boolean; onLogout: () => void;
   onRequestNameChange: () => void;
+  onOpenMemoryManager: () => void;
+  onRequestExport: (session?: ChatSession) => void;
+  onRequestImport: () => void;
+  onRequestShare: (session: ChatSession) => void;
+  onOpenTrash: () => void;
+  trashCount: number;
+  folders: ChatFolder[];
+  onCreateFolder: (name: string) => void;
+  onRenameFolder: (folderId: string, name: string) => void;
+  onDeleteFolder: (folderId: string) => void;
+  onUpdateSessionOrganization: (sessionId: string, changes: ChatSessionOrganization) => void;
+  onBulkTrash: (sessionIds: string[]) => Promise<void>;
+  onBulkMove: (sessionIds: string[], folderId: string | null) => Promise<void>;
+  onBulkExport: (sessions: ChatSession[]) => void;
+  onBulkRebuildMemory: (sessionIds: string[], onProgress: (done: number, total: number) => void) => Promise<void>;
   userName: string; ownerUID: string;
 }
 
@@ -29,37 +45,125 @@ const groupSessions = (sessions: ChatSession[]) => {
   return Object.entries(groups).filter(([_, chats]) => chats.length > 0);
 };
 
+const SESSION_DRAG_TYPE = 'application/x-surugpt-session';
+
+// Drop targets in the list: the Pinned section, a folder, or the date groups (no folder).
+type DropTarget = 'pinned' | 'unfiled' | `folder:${string}`;
+
+const hasTags = (session: ChatSession, tags: string[]) => tags.every(tag => session.tags?.includes(tag));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const highlightTerm = (text: string, term: string): React.ReactNode => {
+  const words = term.replace(/"/g, ' ').trim().split(/\s+/).filter(Boolean);
+  if (!words.length) return text;
+  const parts = text.split(new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi'));
+  return parts.map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-transparent text-[#FF8DC7] font-semibold">{part}</mark> : part
+  );
+};
+
 const Sidebar: React.FC<SidebarProps> = ({
   isOpen, onClose, onNewChat, chatSessions, activeChatId, onSelectChat,
   onRequestDeleteConfirmation, onRenameChatSession,
-  onLogout, onRequestNameChange, userName
+  onLogout, onRequestNameChange, onOpenMemoryManager, onRequestExport, onRequestImport, onRequestShare, onOpenTrash, trashCount,
+  folders, onCreateFolder, onRenameFolder, onDeleteFolder, onUpdateSessionOrganization,
+  onBulkTrash, onBulkMove, onBulkExport, onBulkRebuildMemory, userName
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [filtered, setFiltered] = useState(chatSessions);
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchMode, setSearchMode] = useState<SearchMode>('exact');
+  const latestSearchRef = useRef(0);
   const [activeMenuId, setActiveMenuId] = useState<string | null>(null);
   const [menuPos, setMenuPos] = useState<{ top: number; left: number } | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  const [editTags, setEditTags] = useState('');
+  const [isMoveMenuOpen, setIsMoveMenuOpen] = useState(false);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  const [editFolderName, setEditFolderName] = useState('');
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkMoveOpen, setIsBulkMoveOpen] = useState(false);
+  const [bulkPending, setBulkPending] = useState<string | null>(null);
+  const [bulkError, setBulkError] = useState<string | null>(null);
   
   const menuRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => { setFiltered(chatSessions); }, [chatSessions]);
+  const debouncedSearch = useMemo(() => debounce(async (term: string, mode: SearchMode) => {
+    // Responses can arrive out of order; only the latest query may update the list.
+    const searchId = ++latestSearchRef.current;
+    try {
+      const results = await searchChats(term, mode);
+      if (searchId === latestSearchRef.current) setSearchResults(results);
+    } catch (e) {
+      console.error("Search error:", e);
+      if (searchId === latestSearchRef.current) setSearchResults([]);
+    } finally {
+      if (searchId === latestSearchRef.current) setIsSearching(false);
+    }
+  }, 300), []);
+
+  const { tags: tagFilter, text: searchText } = parseTagFilter(searchTerm);
+
+  const updateSearchTerm = (value: string) => {
+    setSearchTerm(value);
+    const { text } = parseTagFilter(value);
+    if (text) {
+      setIsSearching(true);
+      debouncedSearch(text, searchMode);
+    } else {
+      latestSearchRef.current++;
+      setIsSearching(false);
+      setSearchResults([]);
+    }
+  };
 
-  const debouncedFilter = useMemo(() => debounce((term: string) => {
-    const t = term.toLowerCase();
-    setFiltered(chatSessions.filter(s => s.title.toLowerCase().includes(t)));
-  }, 300), [chatSessions]);
+  const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => updateSearchTerm(e.target.value);
 
-  const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(e.target.value);
-    debouncedFilter(e.target.value);
+  const handleSearchModeChange = (mode: SearchMode) => {
+    if (mode === searchMode) return;
+    setSearchMode(mode);
+    if (searchText) {
+      setIsSearching(true);
+      debouncedSearch(searchText, mode);
+    }
   };
 
+  // "#tag" words filter the list locally; any other words are sent to search.
+  const isSearchActive = searchText !== '';
+
+  const allTags = useMemo(
+    () => Array.from(new Set(chatSessions.flatMap(s => s.tags || []))).sort(),
+    [chatSessions]
+  );
+  const partialTag = /(?:^|\s)#([^\s#]*)$/.exec(searchTerm)?.[1];
+  const tagSuggestions = partialTag === undefined ? [] : allTags.filter(tag =>
+    tag.startsWith(normalizeTag(partialTag)) && !tagFilter.includes(tag)
+  );
+  const completeTag = (tag: string) => updateSearchTerm(searchTerm.replace(/#[^\s#]*$/, `#${tag} `));
+
+  const sessionsById = useMemo(() => new Map(chatSessions.map(s => [s.id, s])), [chatSessions]);
+  const visibleResults = tagFilter.length
+    ? searchResults.filter(r => { const s = sessionsById.get(r.session.id); return !!s && hasTags(s, tagFilter); })
+    : searchResults;
+
   const openMenu = (e: React.MouseEvent, session: ChatSession) => {
     e.stopPropagation();
     const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
     setMenuPos({ top: rect.bottom + 5, left: rect.left - 100 });
     setActiveMenuId(session.id);
+    setIsMoveMenuOpen(false);
+  };
+
+  const closeMenu = () => {
+    setActiveMenuId(null);
+    setIsMoveMenuOpen(false);
   };
 
   const submitRename = async () => {
@@ -69,7 +173,206 @@ const Sidebar: React.FC<SidebarProps> = ({
     setEditingId(null);
   };
 
-  const grouped = useMemo(() => groupSessions(filtered), [filtered]);
+  const submitTags = () => {
+    if (editingTagsId) {
+      const tags = Array.from(new Set(editTags.split(',').map(normalizeTag).filter(Boolean)));
+      onUpdateSessionOrganization(editingTagsId, { tags });
+    }
+    setEditingTagsId(null);
+  };
+
+  const submitNewFolder = () => {
+    if (newFolderName?.trim()) onCreateFolder(newFolderName);
+    setNewFolderName(null);
+  };
+
+  const submitFolderRename = () => {
+    if (editingFolderId && editFolderName.trim()) onRenameFolder(editingFolderId, editFolderName);
+    setEditingFolderId(null);
+  };
+
+  const toggleFolder = (folderId: string) => setCollapsedFolderIds(prev => {
+    const next = new Set(prev);
+    if (next.has(folderId)) next.delete(folderId); else next.add(folderId);
+    return next;
+  });
+
+  const dropHandlers = (target: DropTarget) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropTarget !== target) setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(prev => (prev === target ? null : prev));
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const sessionId = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+      const session = sessionsById.get(sessionId);
+      if (!session) return;
+      if (target === 'pinned') {
+        if (!session.pinned) onUpdateSessionOrganization(sessionId, { pinned: true });
+      } else {
+        // Dropping a pinned chat anywhere else unpins it as well.
+        const folderId = target === 'unfiled' ? null : target.slice('folder:'.length);
+        if ((session.folderId ?? null) !== folderId || session.pinned) {
+          onUpdateSessionOrganization(sessionId, { folderId, ...(session.pinned ? { pinned: false } : {}) });
+        }
+      }
+    },
+  });
+
+  // Chats that left the list (e.g. trashed elsewhere) drop out of the selection.
+  const selectedSessions = chatSessions.filter(s => selectedIds.has(s.id));
+  const selectedSessionIds = selectedSessions.map(s => s.id);
+
+  const startSelection = () => {
+    closeMenu();
+    setIsSelecting(true);
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+    setIsBulkMoveOpen(false);
+    setBulkError(null);
+  };
+
+  const toggleSelected = (sessionId: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(sessionId)) next.delete(sessionId); else next.add(sessionId);
+    return next;
+  });
+
+  const isGroupSelected = (chats: ChatSession[]) => chats.length > 0 && chats.every(s => selectedIds.has(s.id));
+
+  const toggleGroupSelected = (chats: ChatSession[]) => {
+    const select = !isGroupSelected(chats);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      chats.forEach(s => (select ? next.add(s.id) : next.delete(s.id)));
+      return next;
+    });
+  };
+
+  const renderGroupCheckbox = (chats: ChatSession[], label: string) => isSelecting && chats.length > 0 && (
+    <input
+      type="checkbox"
+      checked={isGroupSelected(chats)}
+      onClick={e => e.stopPropagation()}
+      onChange={() => toggleGroupSelected(chats)}
+      className="ml-auto accent-[#FF8DC7] cursor-pointer"
+      aria-label={`Select all in ${label}`}
+      title="Select all"
+    />
+  );
+
+  // Runs a bulk action on the selection; the selection is kept if it fails.
+  const runBulk = async (label: string, action: () => Promise<void>) => {
+    setBulkPending(label);
+    setBulkError(null);
+    setIsBulkMoveOpen(false);
+    try {
+      await action();
+      exitSelection();
+    } catch (e: any) {
+      console.error(`Bulk ${label} error:`, e);
+      setBulkError(e.message || 'Something went wrong.');
+    } finally {
+      setBulkPending(null);
+    }
+  };
+
+  const dropHighlight = (target: DropTarget) => (dropTarget === target ? 'bg-[#3c3a43] ring-1 ring-[#FF8DC7]/60' : '');
+
+  // Pinned chats are listed only under Pinned, filed chats only in their folder.
+  const tagFilterKey = tagFilter.join(' ');
+  const { pinnedSessions, sessionsByFolder, grouped } = useMemo(() => {
+    const tags = tagFilterKey ? tagFilterKey.split(' ') : [];
+    const visible = tags.length ? chatSessions.filter(s => hasTags(s, tags)) : chatSessions;
+    const folderIds = new Set(folders.map(f => f.id));
+    const byFolder = new Map<string, ChatSession[]>();
+    const unfiled: ChatSession[] = [];
+    visible.forEach(s => {
+      if (s.pinned) return;
+      if (s.folderId && folderIds.has(s.folderId)) byFolder.set(s.folderId, [...(byFolder.get(s.folderId) || []), s]);
+      else unfiled.push(s);
+    });
+    return { pinnedSessions: visible.filter(s => s.pinned), sessionsByFolder: byFolder, grouped: groupSessions(unfiled) };
+  }, [chatSessions, folders, tagFilterKey]);
+
+  const renderSession = (chat: ChatSession) => (
+    <div
+      key={chat.id}
+      draggable={!isSelecting && editingId !== chat.id && editingTagsId !== chat.id}
+      onDragStart={e => { e.dataTransfer.setData(SESSION_DRAG_TYPE, chat.id); e.dataTransfer.effectAllowed = 'move'; }}
+      onDragEnd={() => setDropTarget(null)}
+      onClick={() => (isSelecting ? toggleSelected(chat.id) : onSelectChat(chat.id))}
+      className={`group relative flex items-center justify-between p-2 rounded-lg cursor-pointer text-xs mb-0.5 transition-all ${isSelecting ? (selectedIds.has(chat.id) ? 'bg-[#3c3a43]' : 'hover:bg-[#3c3a43]') : activeChatId === chat.id ? 'bg-[#4A4754] text-[#FF8DC7]' : 'hover:bg-[#3c3a43]'}`}
+    >
+      {isSelecting && (
+        <input
+          type="checkbox"
+          checked={selectedIds.has(chat.id)}
+          onClick={e => e.stopPropagation()}
+          onChange={() => toggleSelected(chat.id)}
+          className="mr-2 flex-shrink-0 accent-[#FF8DC7] cursor-pointer"
+          aria-label={`Select "${chat.title}"`}
+        />
+      )}
+      {editingId === chat.id ? (
+        <input 
+          autoFocus 
+          value={editTitle} 
+          onChange={e => setEditTitle(e.target.value)} 
+          onBlur={submitRename} 
+          onKeyDown={e => e.key === 'Enter' && submitRename()} 
+          className="bg-transparent border-none outline-none w-full" 
+        />
+      ) : editingTagsId === chat.id ? (
+        <input
+          autoFocus
+          value={editTags}
+          placeholder="tags, comma separated"
+          onClick={e => e.stopPropagation()}
+          onChange={e => setEditTags(e.target.value)}
+          onBlur={submitTags}
+          onKeyDown={e => { if (e.key === 'Enter') submitTags(); else if (e.key === 'Escape') setEditingTagsId(null); }}
+          className="bg-transparent border-none outline-none w-full placeholder-[#A09CB0]"
+        />
+      ) : (
+        <span className="flex-grow min-w-0">
+          <span 
+            key={chat.title} 
+            className="block truncate animate-titleUpdate"
+          >
+            {chat.title}
+          </span>
+          {!!chat.tags?.length && (
+            <span className="block truncate text-[10px] text-[#A09CB0]">
+              {chat.tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={e => { e.stopPropagation(); updateSearchTerm(`#${tag} `); }}
+                  className="mr-1.5 hover:text-[#FF8DC7]"
+                >
+                  #{tag}
+                </button>
+              ))}
+            </span>
+          )}
+        </span>
+      )}
+      {!isSelecting && (
+        <button onClick={e => openMenu(e, chat)} className="opacity-0 group-hover:opacity-100 p-1 hover:text-[#FF8DC7] transition-all"><IconEllipsisVertical className="w-3 h-3" /></button>
+      )}
+    </div>
+  );
+
+  const menuSession = activeMenuId ? sessionsById.get(activeMenuId) : undefined;
 
   return (
     <>
@@ -82,49 +385,245 @@ const Sidebar: React.FC<SidebarProps> = ({
             </button>
           </div>
 
-          <button onClick={onNewChat} className="w-full flex items-center p-2.5 mb-4 rounded-lg hover:bg-[#4A4754] transition-colors mt-2 md:mt-0">
-            <IconNewChat className="w-4 h-4 mr-2" /> <span className="text-sm">New chat</span>
-          </button>
+          <div className="flex items-center gap-1 mb-4 mt-2 md:mt-0">
+            <button onClick={onNewChat} className="flex-grow flex items-center p-2.5 rounded-lg hover:bg-[#4A4754] transition-colors">
+              <IconNewChat className="w-4 h-4 mr-2" /> <span className="text-sm">New chat</span>
+            </button>
+            <button
+              onClick={isSelecting ? exitSelection : startSelection}
+              className={`p-2.5 rounded-lg transition-colors flex-shrink-0 ${isSelecting ? 'text-[#FF8DC7] bg-[#4A4754]' : 'text-[#A09CB0] hover:text-[#FF8DC7] hover:bg-[#4A4754]'}`}
+              title={isSelecting ? 'Cancel selection' : 'Select chats'}
+              aria-label={isSelecting ? 'Cancel selection' : 'Select chats'}
+              aria-pressed={isSelecting}
+            >
+              <IconCheckCircle className="w-4 h-4" />
+            </button>
+          </div>
+
+          {isSelecting && (
+            <div className="mb-4 p-2 rounded-lg bg-[#393641] text-xs">
+              <div className="flex items-center justify-between mb-2 px-1">
+                <span className="text-[#EAE6F0]">
+                  {bulkPending ?? `${selectedSessions.length} selected`}
+                </span>
+                <button onClick={exitSelection} disabled={bulkPending !== null} className="text-[10px] text-[#A09CB0] hover:text-[#FF8DC7] disabled:opacity-50">
+                  Cancel
+                </button>
+              </div>
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setIsBulkMoveOpen(open => !open)}
+                  disabled={!selectedSessions.length || bulkPending !== null}
+                  className={`p-1.5 rounded-lg hover:bg-[#4A4754] hover:text-[#FF8DC7] disabled:opacity-40 disabled:hover:bg-transparent transition-all ${isBulkMoveOpen ? 'text-[#FF8DC7]' : 'text-[#A09CB0]'}`}
+                  title="Move to folder" aria-label="Move selected chats to folder"
+                >
+                  <IconFolder className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => { onBulkExport(selectedSessions); exitSelection(); }}
+                  disabled={!selectedSessions.length || bulkPending !== null}
+                  className="p-1.5 rounded-lg text-[#A09CB0] hover:bg-[#4A4754] hover:text-[#FF8DC7] disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+                  title="Export" aria-label="Export selected chats"
+                >
+                  <IconDownload className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => runBulk('Rebuilding memory…', () => onBulkRebuildMemory(selectedSessionIds, (done, total) => setBulkPending(`Rebuilding memory ${done}/${total}…`)))}
+                  disabled={!selectedSessions.length || bulkPending !== null}
+                  className="p-1.5 rounded-lg text-[#A09CB0] hover:bg-[#4A4754] hover:text-[#FF8DC7] disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+                  title="Rebuild memory" aria-label="Rebuild memory for selected chats"
+                >
+                  <IconSparkles className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => runBulk('Moving to Trash…', () => onBulkTrash(selectedSessionIds))}
+                  disabled={!selectedSessions.length || bulkPending !== null}
+                  className="p-1.5 rounded-lg text-[#FF8DC7] hover:bg-[#4A4754] disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+                  title="Move to Trash" aria-label="Move selected chats to Trash"
+                >
+                  <IconTrash className="w-4 h-4" />
+                </button>
+              </div>
+              {isBulkMoveOpen && (
+                <div className="mt-1 border-t border-[#4A4754] pt-1">
+                  {[{ id: null as string | null, name: 'No folder' }, ...folders].map(folder => (
+                    <button
+                      key={folder.id ?? 'none'}
+                      onClick={() => runBulk('Moving…', () => onBulkMove(selectedSessionIds, folder.id))}
+                      className="w-full text-left px-2 py-1.5 rounded-md text-[#A09CB0] hover:text-[#EAE6F0] hover:bg-[#4A4754] truncate"
+                    >
+                      {folder.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {bulkError && <p className="mt-1 px-1 text-[10px] text-[#FF8585]">{bulkError}</p>}
+            </div>
+          )}
           
           <div className="relative mb-4">
             <IconSearch className="absolute left-2.5 top-2.5 w-3.5 h-3.5 text-[#A09CB0]" />
             <input 
               type="text" 
-              placeholder="Search chats" 
+              placeholder="Search chats or #tag" 
               value={searchTerm} 
               onChange={handleSearch} 
               className="w-full p-2 pl-8 bg-[#4A4754] text-xs rounded-md border border-[#5A5666] focus:border-[#FF8DC7] transition-all" 
             />
+            {isSearchActive && (
+              <div className="flex mt-2 bg-[#4A4754] rounded-md p-0.5 text-[10px]">
+                {(['exact', 'related'] as SearchMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => handleSearchModeChange(mode)}
+                    className={`flex-1 py-1 rounded capitalize transition-colors ${searchMode === mode ? 'bg-[#2E2B36] text-[#FF8DC7]' : 'text-[#A09CB0] hover:text-[#EAE6F0]'}`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            )}
+            {tagSuggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {tagSuggestions.slice(0, 8).map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => completeTag(tag)}
+                    className="px-2 py-0.5 rounded-full bg-[#4A4754] text-[10px] text-[#A09CB0] hover:text-[#FF8DC7] transition-colors"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="flex-grow overflow-y-auto pr-1">
-            {grouped.map(([heading, chats]) => (
-              <div key={heading} className="mb-4">
-                <h3 className="text-[10px] text-[#A09CB0] uppercase font-bold mb-1 px-1 tracking-wider">{heading}</h3>
-                {chats.map(chat => (
-                  <div key={chat.id} onClick={() => onSelectChat(chat.id)} className={`group relative flex items-center justify-between p-2 rounded-lg cursor-pointer text-xs mb-0.5 transition-all ${activeChatId === chat.id ? 'bg-[#4A4754] text-[#FF8DC7]' : 'hover:bg-[#3c3a43]'}`}>
-                    {editingId === chat.id ? (
-                      <input 
-                        autoFocus 
-                        value={editTitle} 
-                        onChange={e => setEditTitle(e.target.value)} 
-                        onBlur={submitRename} 
-                        onKeyDown={e => e.key === 'Enter' && submitRename()} 
-                        className="bg-transparent border-none outline-none w-full" 
-                      />
-                    ) : (
-                      <span 
-                        key={chat.title} 
-                        className="truncate flex-grow animate-titleUpdate"
+            {isSearchActive && (
+              <div className="mb-4">
+                <h3 className="text-[10px] text-[#A09CB0] uppercase font-bold mb-1 px-1 tracking-wider">
+                  {isSearching ? 'Searching...' : `${visibleResults.length} result${visibleResults.length === 1 ? '' : 's'}`}
+                </h3>
+                {!isSearching && visibleResults.map(({ session, snippets, summaryText }) => (
+                  <div key={session.id} className="mb-1">
+                    <div
+                      onClick={() => onSelectChat(session.id)}
+                      className={`p-2 rounded-lg cursor-pointer text-xs transition-all ${activeChatId === session.id ? 'bg-[#4A4754] text-[#FF8DC7]' : 'hover:bg-[#3c3a43]'}`}
+                    >
+                      <span className="block truncate">{highlightTerm(session.title, searchText)}</span>
+                    </div>
+                    {snippets.map(snippet => (
+                      <button
+                        key={snippet.messageId}
+                        onClick={() => onSelectChat(session.id, snippet.messageId)}
+                        className="w-full text-left pl-4 pr-2 py-1 text-[11px] leading-snug text-[#A09CB0] hover:text-[#EAE6F0] hover:bg-[#3c3a43] rounded-md"
                       >
-                        {chat.title}
-                      </span>
+                        {highlightTerm(snippet.text, searchText)}
+                      </button>
+                    ))}
+                    {snippets.length === 0 && summaryText && (
+                      <p className="pl-4 pr-2 py-1 text-[11px] leading-snug text-[#A09CB0] line-clamp-2">{summaryText}</p>
                     )}
-                    <button onClick={e => openMenu(e, chat)} className="opacity-0 group-hover:opacity-100 p-1 hover:text-[#FF8DC7] transition-all"><IconEllipsisVertical className="w-3 h-3" /></button>
                   </div>
                 ))}
               </div>
-            ))}
+            )}
+            {!isSearchActive && (
+              <>
+                {tagFilter.length > 0 && pinnedSessions.length === 0 && sessionsByFolder.size === 0 && grouped.length === 0 && (
+                  <p className="px-1 text-[11px] text-[#A09CB0]">No chats tagged {tagFilter.map(t => `#${t}`).join(' ')}.</p>
+                )}
+                {pinnedSessions.length > 0 && (
+                  <div {...dropHandlers('pinned')} className={`mb-4 rounded-lg transition-all ${dropHighlight('pinned')}`}>
+                    <h3 className="flex items-center text-[10px] text-[#A09CB0] uppercase font-bold mb-1 px-1 tracking-wider">
+                      <IconPin className="w-3 h-3 mr-1" /> Pinned
+                      {renderGroupCheckbox(pinnedSessions, 'Pinned')}
+                    </h3>
+                    {pinnedSessions.map(renderSession)}
+                  </div>
+                )}
+                {(folders.length > 0 || newFolderName !== null || tagFilter.length === 0) && (
+                  <div className="mb-4">
+                    <h3 className="flex items-center justify-between text-[10px] text-[#A09CB0] uppercase font-bold mb-1 px-1 tracking-wider">
+                      Folders
+                      <button onClick={() => setNewFolderName('')} className="p-0.5 hover:text-[#FF8DC7] transition-colors" title="New folder" aria-label="New folder">
+                        <IconFolderPlus className="w-3.5 h-3.5" />
+                      </button>
+                    </h3>
+                    {newFolderName !== null && (
+                      <div className="flex items-center p-2 text-xs">
+                        <IconFolder className="w-3.5 h-3.5 mr-2 text-[#A09CB0] flex-shrink-0" />
+                        <input
+                          autoFocus
+                          value={newFolderName}
+                          placeholder="Folder name"
+                          onChange={e => setNewFolderName(e.target.value)}
+                          onBlur={submitNewFolder}
+                          onKeyDown={e => { if (e.key === 'Enter') submitNewFolder(); else if (e.key === 'Escape') setNewFolderName(null); }}
+                          className="bg-transparent border-none outline-none w-full placeholder-[#A09CB0]"
+                        />
+                      </div>
+                    )}
+                    {folders.map(folder => {
+                      const chats = sessionsByFolder.get(folder.id) || [];
+                      // While filtering by tag, only folders with matching chats are shown.
+                      if (tagFilter.length && chats.length === 0) return null;
+                      const isCollapsed = collapsedFolderIds.has(folder.id);
+                      return (
+                        <div key={folder.id} {...dropHandlers(`folder:${folder.id}`)} className={`rounded-lg transition-all ${dropHighlight(`folder:${folder.id}`)}`}>
+                          <div
+                            onClick={() => toggleFolder(folder.id)}
+                            className="group flex items-center p-2 rounded-lg cursor-pointer text-xs text-[#EAE6F0] hover:bg-[#3c3a43] transition-all"
+                          >
+                            <IconChevronDown className={`w-3 h-3 mr-1 text-[#A09CB0] flex-shrink-0 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
+                            <IconFolder className="w-3.5 h-3.5 mr-1.5 text-[#A09CB0] flex-shrink-0" />
+                            {editingFolderId === folder.id ? (
+                              <input
+                                autoFocus
+                                value={editFolderName}
+                                onClick={e => e.stopPropagation()}
+                                onChange={e => setEditFolderName(e.target.value)}
+                                onBlur={submitFolderRename}
+                                onKeyDown={e => { if (e.key === 'Enter') submitFolderRename(); else if (e.key === 'Escape') setEditingFolderId(null); }}
+                                className="bg-transparent border-none outline-none w-full"
+                              />
+                            ) : (
+                              <span className="truncate flex-grow">{folder.name}</span>
+                            )}
+                            {isSelecting ? renderGroupCheckbox(chats, folder.name) : (
+                              <span className="ml-1 text-[10px] text-[#A09CB0] group-hover:hidden">{chats.length || ''}</span>
+                            )}
+                            <span className={`hidden items-center ${isSelecting ? '' : 'group-hover:flex'}`}>
+                              <button onClick={e => { e.stopPropagation(); setEditingFolderId(folder.id); setEditFolderName(folder.name); }} className="p-0.5 hover:text-[#FF8DC7]" aria-label="Rename folder">
+                                <IconPencil className="w-3 h-3" />
+                              </button>
+                              <button onClick={e => { e.stopPropagation(); onDeleteFolder(folder.id); }} className="p-0.5 hover:text-[#FF8DC7]" aria-label="Delete folder" title="Delete folder (chats are kept)">
+                                <IconTrash className="w-3 h-3" />
+                              </button>
+                            </span>
+                          </div>
+                          {!isCollapsed && <div className="pl-3">{chats.map(renderSession)}</div>}
+                        </div>
+                      );
+                    })}
+                    {folders.length === 0 && newFolderName === null && (
+                      <p className="px-1 text-[10px] text-[#A09CB0]">Drag chats onto a folder to file them.</p>
+                    )}
+                  </div>
+                )}
+                <div {...dropHandlers('unfiled')} className={`rounded-lg transition-all ${dropHighlight('unfiled')}`}>
+                  {grouped.map(([heading, chats]) => (
+                    <div key={heading} className="mb-4">
+                      <h3 className="flex items-center text-[10px] text-[#A09CB0] uppercase font-bold mb-1 px-1 tracking-wider">
+                        {heading}
+                        {renderGroupCheckbox(chats, heading)}
+                      </h3>
+                      {chats.map(renderSession)}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
 
           <div className="mt-auto border-t border-[#393641] pt-4 flex items-center justify-between gap-2">
@@ -138,6 +637,39 @@ const Sidebar: React.FC<SidebarProps> = ({
                 {userName}
               </span>
             </button>
+            <button
+              onClick={() => onRequestExport()}
+              className="p-1.5 text-[#A09CB0] hover:text-[#FF8DC7] hover:bg-[#4A4754] rounded-lg transition-all flex-shrink-0"
+              title="Export all chats"
+              aria-label="Export all chats"
+            >
+              <IconDownload className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onRequestImport}
+              className="p-1.5 text-[#A09CB0] hover:text-[#FF8DC7] hover:bg-[#4A4754] rounded-lg transition-all flex-shrink-0"
+              title="Import chats"
+              aria-label="Import chats"
+            >
+              <IconUpload className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onOpenTrash}
+              className="relative p-1.5 text-[#A09CB0] hover:text-[#FF8DC7] hover:bg-[#4A4754] rounded-lg transition-all flex-shrink-0"
+              title="Trash"
+              aria-label={`Trash${trashCount ? ` (${trashCount})` : ''}`}
+            >
+              <IconTrash className="w-4 h-4" />
+              {trashCount > 0 && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-[#FF8DC7]" />}
+            </button>
+            <button
+              onClick={onOpenMemoryManager}
+              className="p-1.5 text-[#A09CB0] hover:text-[#FF8DC7] hover:bg-[#4A4754] rounded-lg transition-all flex-shrink-0"
+              title="Manage memory"
+              aria-label="Manage memory"
+            >
+              <IconSparkles className="w-4 h-4" />
+            </button>
             <button 
               onClick={onLogout} 
               className="text-[10px] text-[#A09CB0] hover:text-[#FF8DC7] whitespace-nowrap px-2 py-1.5 hover:bg-[#4A4754] rounded-lg transition-all"
@@ -154,11 +686,44 @@ const Sidebar: React.FC<SidebarProps> = ({
           className="fixed bg-[#201F23] rounded-lg shadow-2xl py-1 z-50 text-xs w-32 border border-[#4A4754] animate-scaleIn" 
           style={{ top: menuPos.top, left: menuPos.left }}
         >
-          <button onClick={() => { setEditingId(activeMenuId); setEditTitle(filtered.find(s=>s.id===activeMenuId)?.title || ""); setActiveMenuId(null); }} className="w-full text-left px-4 py-2 hover:bg-[#393641] flex items-center">
+          <button onClick={() => { setEditingId(activeMenuId); setEditTitle(chatSessions.find(s=>s.id===activeMenuId)?.title || ""); setActiveMenuId(null); }} className="w-full text-left px-4 py-2 hover:bg-[#393641] flex items-center">
             <IconPencil className="w-3 h-3 mr-2" /> Rename
           </button>
-          <button onClick={() => { const s = filtered.find(x=>x.id===activeMenuId); if(s) onRequestDeleteConfirmation(s.id, s.title); setActiveMenuId(null); }} className="w-full text-left px-4 py-2 hover:bg-[#393641] text-[#FF8DC7] flex items-center">
-            <IconTrash className="w-3 h-3 mr-2" /> Delete
+          {menuSession && (
+            <>
+              <button onClick={() => { onUpdateSessionOrganization(menuSession.id, { pinned: !menuSession.pinned }); closeMenu(); }} className="w-full text-left px-4 py-2 hover:bg-[#393641] flex items-center">
+                <IconPin className="w-3 h-3 mr-2" /> {menuSession.pinned ? 'Unpin' : 'Pin'}
+              </button>
+              <button onClick={() => { setEditingTagsId(menuSession.id); setEditTags((menuSession.tags || []).join(', ')); closeMenu(); }} className="w-full text-left px-4 py-2 hover:bg-[#393641] flex items-center">
+                <IconTag className="w-3 h-3 mr-2" /> Tags
+              </button>
+              <button onClick={() => setIsMoveMenuOpen(open => !open)} className="w-full text-left px-4 py-2 hover:bg-[#393641] flex items-center">
+                <IconFolder className="w-3 h-3 mr-2" /> Move to
+                <IconChevronDown className={`w-3 h-3 ml-auto transition-transform ${isMoveMenuOpen ? '' : '-rotate-90'}`} />
+              </button>
+              {isMoveMenuOpen && (
+                <div className="border-y border-[#393641] py-1">
+                  {[{ id: null as string | null, name: 'No folder' }, ...folders].map(folder => (
+                    <button
+                      key={folder.id ?? 'none'}
+                      onClick={() => { onUpdateSessionOrganization(menuSession.id, { folderId: folder.id }); closeMenu(); }}
+                      className={`w-full text-left pl-9 pr-3 py-1.5 hover:bg-[#393641] truncate ${(menuSession.folderId ?? null) === folder.id ? 'text-[#FF8DC7]' : 'text-[#A09CB0]'}`}
+                    >
+                      {folder.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+          <button onClick={() => { const s = chatSessions.find(x=>x.id===activeMenuId); if(s) onRequestExport(s); setActiveMenuId(null); }} className="w-full text-left px-4 py-2 hover:bg-[#393641] flex items-center">
+            <IconDownload className="w-3 h-3 mr-2" /> Export
+          </button>
+          <button onClick={() => { const s = chatSessions.find(x=>x.id===activeMenuId); if(s) onRequestShare(s); setActiveMenuId(null); }} className="w-full text-left px-4 py-2 hover:bg-[#393641] flex items-center">
+            <IconLink className="w-3 h-3 mr-2" /> Share
+          </button>
+          <button onClick={() => { const s = chatSessions.find(x=>x.id===activeMenuId); if(s) onRequestDeleteConfirmation(s.id, s.title); setActiveMenuId(null); }} className="w-full text-left px-4 py-2 hover:bg-[#393641] text-[#FF8DC7] flex items-center">
+            <IconTrash className="w-3 h-3 mr-2" /> Move to Trash
           </button>
         </div>
       )}
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { IconClose } from '../constants';
+import { ChatSession } from '../types';
+
+interface TrashDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessions: ChatSession[];
+  onRestore: (sessionId: string) => Promise<void>;
+  onDeletePermanently: (sessionId: string) => Promise<void>;
+  onEmptyTrash: () => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (value: Date | Timestamp) => (value instanceof Date ? value : value.toDate());
+
+const daysLeftLabel = (purgeAt?: Date | Timestamp | null) => {
+  if (!purgeAt) return '';
+  const days = Math.ceil((toDate(purgeAt).getTime() - Date.now()) / DAY_MS);
+  return days <= 1 ? 'Deleted within a day' : `Deleted in ${days} days`;
+};
+
+const TrashDialog: React.FC<TrashDialogProps> = ({ isOpen, onClose, sessions, onRestore, onDeletePermanently, onEmptyTrash }) => {
+  // The id awaiting a second click to delete for good, or 'all' for Empty trash.
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setConfirming(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      setConfirming(null);
+    } catch (e: any) {
+      console.error("Trash error:", e);
+      setError(e.message || 'Something went wrong.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const sorted = [...sessions].sort((a, b) =>
+    (b.deletedAt ? toDate(b.deletedAt).getTime() : 0) - (a.deletedAt ? toDate(a.deletedAt).getTime() : 0));
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[60] p-4 animate-fadeIn" onClick={onClose}>
+      <div
+        className="bg-[#393641] p-6 rounded-3xl shadow-2xl w-full max-w-md border border-[#4A4754] animate-scaleIn flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-[#EAE6F0]">Trash</h2>
+          <button onClick={onClose} className="p-1 text-[#A09CB0] hover:text-[#FF8DC7]" aria-label="Close trash">
+            <IconClose className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-[#A09CB0] mb-4">Deleted chats stay here for a while before they're gone for good. Suru doesn't remember them in the meantime.</p>
+
+        <div className="flex-grow overflow-y-auto -mx-2 px-2 mb-4">
+          {sorted.length === 0 && <p className="text-sm text-[#A09CB0] text-center py-6">Trash is empty.</p>}
+          {sorted.map(session => (
+            <div key={session.id} className="flex items-center justify-between gap-3 p-2 rounded-xl hover:bg-[#4A4754]/50">
+              <div className="min-w-0">
+                <p className="text-sm text-[#EAE6F0] truncate">{session.title}</p>
+                <p className="text-[11px] text-[#A09CB0]">{daysLeftLabel(session.purgeAt)}</p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                <button
+                  onClick={() => run(session.id, () => onRestore(session.id))}
+                  disabled={busyId !== null}
+                  className="px-3 py-1.5 rounded-xl bg-[#4A4754] hover:bg-[#53505F] text-[#EAE6F0] disabled:opacity-50"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => confirming === session.id ? run(session.id, () => onDeletePermanently(session.id)) : setConfirming(session.id)}
+                  disabled={busyId !== null}
+                  className={`px-3 py-1.5 rounded-xl disabled:opacity-50 ${confirming === session.id ? 'bg-[#FF6B6B] hover:bg-[#E05252] text-white' : 'text-[#FF8585] hover:bg-[#4A4754]'}`}
+                >
+                  {busyId === session.id && confirming === session.id ? 'Deleting...' : confirming === session.id ? 'Confirm' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-xs text-[#FF8585] mb-3">{error}</p>}
+
+        <div className="flex justify-end space-x-3">
+          {sorted.length > 0 && (
+            <button
+              onClick={() => confirming === 'all' ? run('all', onEmptyTrash) : setConfirming('all')}
+              disabled={busyId !== null}
+              className={`px-5 py-2.5 text-sm font-semibold rounded-2xl disabled:opacity-50 transition-all ${confirming === 'all' ? 'text-white bg-[#FF6B6B] hover:bg-[#E05252]' : 'text-[#FF8585] bg-[#4A4754] hover:bg-[#53505F]'}`}
+            >
+              {busyId === 'all' ? 'Emptying...' : confirming === 'all' ? 'Delete all forever' : 'Empty trash'}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-sm font-semibold text-white bg-[#FF8DC7] hover:bg-opacity-90 rounded-2xl shadow-lg transition-all active:scale-95"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashDialog;
@@ -0,0 +1,36 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  // Without onUndo the toast is a plain notice.
+  onUndo?: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+// Bottom-of-screen notice, optionally with an Undo button, that dismisses itself.
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 6000 }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, durationMs]);
+
+  return (
+    <div
+      className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[70] flex items-center gap-4 max-w-[90vw] px-4 py-2.5 bg-[#201F23] border border-[#4A4754] rounded-2xl shadow-2xl text-xs text-[#EAE6F0] animate-fadeInUpSlightly"
+      role="status"
+    >
+      <span className="truncate">{message}</span>
+      {onUndo && (
+        <button
+          onClick={() => { onUndo(); onDismiss(); }}
+          className="font-semibold text-[#FF8DC7] hover:underline flex-shrink-0"
+        >
+          Undo
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default UndoToast;
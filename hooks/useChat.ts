@@ -1,99 +1,384 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { User } from 'firebase/auth';
-import { Message, SenderType, ChatSession } from '../types';
+import { Message, MessageSendStatus, SenderType, ChatSession, ChatSettings } from '../types';
 import { generateId } from '../utils/helpers';
+import { withParentIds, getActivePath, getBranchInfo, latestLeafFrom, getVariants, withActiveVariant } from '../utils/messageTree';
 import { generateChatTitle, generateFallbackTitle } from '../services/chatTitleService';
 import { 
   sendMessageStream, 
-  setConversationContextFromAppMessages, 
-  triggerMemoryUpdateForSession, 
-  startNewOpenAIChatSession 
+  triggerMemoryUpdateForSession
 } from '../services/openAIService';
 import {
-  getChatSessions,
-  getMessagesForSession,
+  subscribeToChatSessions,
+  subscribeToSessionMessages,
   createChatSessionInFirestore,
-  addMessageToFirestore,
   updateChatSessionTitleInFirestore,
-  updateMessageInFirestore,
-  updateMessageFeedbackInFirestore
+  updateChatSessionSettingsInFirestore,
+  updateMessageFeedbackInFirestore,
+  setActiveLeafInFirestore,
+  selectMessageVariantInFirestore
 } from '../services/firebaseService';
+import { OutboxEntry } from '../services/outboxService';
+import { useOutbox, OutboxDelivery } from './useOutbox';
 
 const LOCAL_STORAGE_ACTIVE_CHAT_ID_KEY = 'surugpt_activeChatId_owner';
 
+// Points old message ids (and parent links to them) at new ones.
+const remapIds = (messages: Message[], idMap: Record<string, string>) => messages.map(m => ({
+  ...m,
+  id: idMap[m.id] ?? m.id,
+  parentId: m.parentId ? (idMap[m.parentId] ?? m.parentId) : m.parentId,
+}));
+
+// How sending a turn went. `not_sent` means the server stored nothing, so the
+// turn can be queued in the outbox; `stopped` means the user pressed Stop first.
+type TurnResult =
+  | { status: 'sent'; userMessageId: string; leafId: string }
+  | { status: 'not_sent'; error: string; retryable: boolean }
+  | { status: 'stopped' };
+
+const queuedMessage = (entry: OutboxEntry, sendStatus: MessageSendStatus = entry.status): Message => ({
+  id: entry.id, text: entry.text, sender: SenderType.USER, timestamp: new Date(entry.createdAt), parentId: entry.parentId, sendStatus,
+});
+
+// Sends a queued turn for a chat that is not on screen; the server stores both turns.
+const sendTurnInBackground = async (sessionId: string, text: string, uid: string, parentId: string | null): Promise<TurnResult> => {
+  let userMessageId: string | null = null;
+  let aiMessageId: string | null = null;
+  let replied = false;
+  try {
+    const stream = await sendMessageStream(sessionId, text, uid, undefined, { parentId });
+    for await (const event of stream ?? []) {
+      if (event.type === 'start') {
+        userMessageId = event.userMessageId;
+        aiMessageId = event.aiMessageId;
+      } else if (event.type === 'done') {
+        replied = true;
+      } else if (event.type === 'error' && !userMessageId) {
+        return { status: 'not_sent', error: event.message, retryable: !!event.retryable };
+      }
+    }
+  } catch (e: any) {
+    if (!userMessageId) return { status: 'not_sent', error: e.message || 'Network error.', retryable: true };
+  }
+  if (!userMessageId) return { status: 'not_sent', error: 'No response from the server.', retryable: true };
+  return { status: 'sent', userMessageId, leafId: replied && aiMessageId ? aiMessageId : userMessageId };
+};
+
+// Stored messages win, except the ones in `localIds`: those are kept as shown
+// (e.g. a reply still streaming) and stay on screen even if not stored yet.
+const mergeStoredMessages = (local: Message[], stored: Message[], localIds: Set<string>) => {
+  const keptLocal = new Map(local.filter(m => localIds.has(m.id)).map(m => [m.id, m]));
+  const storedIds = new Set(stored.map(m => m.id));
+  // Send status is client-only, so carry it over onto the stored copy.
+  const sendStatuses = new Map(local.filter(m => m.sendStatus).map(m => [m.id, m.sendStatus]));
+  return [
+    ...stored.map(m => keptLocal.get(m.id) ?? (sendStatuses.has(m.id) ? { ...m, sendStatus: sendStatuses.get(m.id) } : m)),
+    ...Array.from(keptLocal.values()).filter(m => !storedIds.has(m.id)),
+  ];
+};
+
 export function useChat(currentUser: User | null) {
-  const [currentMessages, setCurrentMessages] = useState<Message[]>([]);
+  // Every message of the active session, across all branches.
+  const [sessionMessages, setSessionMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
   const [allChatSessions, setAllChatSessions] = useState<ChatSession[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
+  // Persona, model and temperature for the next new chat.
+  const [newChatSettings, setNewChatSettings] = useState<ChatSettings>({});
   const [isLoadingAiResponse, setIsLoadingAiResponse] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [isSessionsLoading, setIsSessionsLoading] = useState(true);
   const previousActiveSessionIdToProcessOnNewChatRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Replies that failed and only exist on screen; new turns never attach to them.
+  const unsavedMessageIdsRef = useRef<Set<string>>(new Set());
+  // Turns this tab is still sending: the local copies are shown until the stream ends.
+  const pendingMessageIdsRef = useRef<Set<string>>(new Set());
+  // Until the server reports the ids of a new turn, its stored copy cannot be matched
+  // to the local one, so message snapshots are held back instead of showing it twice.
+  const awaitingStartRef = useRef(false);
+  const heldMessagesRef = useRef<Message[] | null>(null);
+  // Read by outbox deliveries, which may run long after the render that started them.
+  const activeChatIdRef = useRef<string | null>(null);
+  activeChatIdRef.current = activeChatId;
+
+  const outbox = useOutbox(currentUser, (entry) => deliverQueuedMessage(entry), isLoadingAiResponse);
+  const isQueuedInActiveChat = (entry: OutboxEntry) =>
+    !!activeChatId && (entry.localSessionId === activeChatId || entry.sessionId === activeChatId);
+
+  // Queued turns are shown from the outbox until they are handed to the server.
+  const visibleMessages = useMemo(() => {
+    const queued = outbox.entries.filter(isQueuedInActiveChat);
+    if (!queued.length) return sessionMessages;
+    const shownIds = new Set(sessionMessages.map(m => m.id));
+    return [...sessionMessages, ...queued.filter(e => !shownIds.has(e.id)).map(e => queuedMessage(e))];
+  }, [sessionMessages, outbox.entries, activeChatId]);
 
-  // Sync sessions on auth
+  const currentMessages = useMemo(() => getActivePath(visibleMessages, activeLeafId), [visibleMessages, activeLeafId]);
+  const branchInfo = useMemo(() => getBranchInfo(visibleMessages, currentMessages), [visibleMessages, currentMessages]);
+
+  // Keep the session list in sync with Firestore, including changes from other tabs and devices.
   useEffect(() => {
     if (currentUser) {
       const storedId = localStorage.getItem(`${LOCAL_STORAGE_ACTIVE_CHAT_ID_KEY}_${currentUser.uid}`);
       previousActiveSessionIdToProcessOnNewChatRef.current = storedId;
       setIsSessionsLoading(true);
-      getChatSessions(currentUser.uid).then(sessions => {
-        setAllChatSessions(sessions);
-        setIsSessionsLoading(false);
-      });
+      return subscribeToChatSessions(
+        currentUser.uid,
+        sessions => {
+          setAllChatSessions(sessions);
+          setIsSessionsLoading(false);
+        },
+        () => setIsSessionsLoading(false)
+      );
     } else {
       setAllChatSessions([]);
       setActiveChatId(null);
-      setCurrentMessages([]);
+      setSessionMessages([]);
+      setActiveLeafId(null);
     }
   }, [currentUser]);
 
-  const processMemory = useCallback(async (uid: string, sid: string, msgs: Message[]) => {
-    if (!sid || sid.startsWith("PENDING_") || msgs.length === 0) return;
+  const applyStoredMessages = useCallback((stored: Message[]) => {
+    if (awaitingStartRef.current) {
+      heldMessagesRef.current = stored;
+      return;
+    }
+    heldMessagesRef.current = null;
+    const localIds = new Set([...pendingMessageIdsRef.current, ...unsavedMessageIdsRef.current]);
+    setSessionMessages(prev => mergeStoredMessages(prev, withParentIds(stored), localIds));
+  }, []);
+
+  const releaseHeldMessages = () => {
+    awaitingStartRef.current = false;
+    if (heldMessagesRef.current) applyStoredMessages(heldMessagesRef.current);
+  };
+
+  // Keep the active chat's messages in sync. A chat still being created (PENDING_) has none stored yet.
+  useEffect(() => {
+    if (!currentUser || !activeChatId || activeChatId.startsWith("PENDING_")) return;
+    return subscribeToSessionMessages(activeChatId, applyStoredMessages);
+  }, [currentUser, activeChatId, applyStoredMessages]);
+
+  // Follow the branch another tab or device moved to, unless this tab is mid-reply.
+  const storedActiveLeafId = allChatSessions.find(s => s.id === activeChatId)?.activeLeafId;
+  useEffect(() => {
+    if (storedActiveLeafId && !isLoadingAiResponse) setActiveLeafId(storedActiveLeafId);
+  }, [storedActiveLeafId]);
+
+  const processMemory = useCallback(async (uid: string, sid: string) => {
+    if (!sid || sid.startsWith("PENDING_")) return;
     try {
-      await triggerMemoryUpdateForSession(uid, sid, msgs);
+      await triggerMemoryUpdateForSession(uid, sid);
     } catch (e) { console.error("Memory error:", e); }
   }, []);
 
-  const selectChat = useCallback(async (chatId: string) => {
+  const selectChat = useCallback((chatId: string) => {
     if (!currentUser || activeChatId === chatId) return;
     if (activeChatId && currentMessages.length > 0) {
-      processMemory(currentUser.uid, activeChatId, currentMessages);
+      processMemory(currentUser.uid, activeChatId);
     }
+    // Messages arrive through the listener for the new active chat.
+    pendingMessageIdsRef.current.clear();
+    heldMessagesRef.current = null;
     setActiveChatId(chatId);
-    try {
-      const messages = await getMessagesForSession(currentUser.uid, chatId);
-      setCurrentMessages(messages);
-      setConversationContextFromAppMessages(messages);
-    } catch (e) { console.error("Load messages error:", e); }
-  }, [currentUser, activeChatId, currentMessages, processMemory]);
+    setSessionMessages([]);
+    setActiveLeafId(allChatSessions.find(s => s.id === chatId)?.activeLeafId ?? null);
+  }, [currentUser, activeChatId, currentMessages, allChatSessions, processMemory]);
+
+  const titleNewChat = (uid: string, sessionId: string, text: string, fallbackTitle: string) => {
+    generateChatTitle(text, uid).then(betterTitle => {
+      if (betterTitle && betterTitle !== fallbackTitle) {
+        updateChatSessionTitleInFirestore(uid, sessionId, betterTitle);
+        setAllChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title: betterTitle } : s));
+      }
+    });
+  };
 
-  const streamAiResponse = async (text: string, sessionId: string, uid: string) => {
+  const rememberActiveLeaf = (sessionId: string, leafId: string) => {
+    setActiveLeafId(leafId);
+    setAllChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, activeLeafId: leafId } : s));
+  };
+
+  // `localUserId` is the id the user's turn currently has on screen; the server
+  // reports the persisted ids in its `start` event and both bubbles adopt them.
+  const streamAiResponse = async (
+    text: string,
+    sessionId: string,
+    uid: string,
+    localUserId: string,
+    branch: { parentId?: string | null; editMessageId?: string; regenerateMessageId?: string }
+  ): Promise<TurnResult> => {
     setIsLoadingAiResponse(true);
-    const aiId = generateId();
-    setCurrentMessages(prev => [...prev, { id: aiId, text: '', sender: SenderType.AI, timestamp: new Date(), feedback: null }]);
+    // A regenerated reply streams into its existing message; anything else gets a new placeholder.
+    const regenerated = branch.regenerateMessageId ? sessionMessages.find(m => m.id === branch.regenerateMessageId) : undefined;
+    let aiId = regenerated?.id ?? generateId();
+    let userId = localUserId;
+    let started = false;
+    // Errors that reach `catch` before `start` are retryable unless the server said otherwise.
+    let retryable = true;
+    let result: TurnResult = { status: 'stopped' };
+    const pending = pendingMessageIdsRef.current;
+    pending.add(localUserId);
+    pending.add(aiId);
+    // Regenerating stores nothing new before `start`, so there is nothing to hold back.
+    awaitingStartRef.current = !regenerated;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    if (regenerated) {
+      setSessionMessages(prev => prev.map(m => m.id === aiId ? { ...m, text: '', feedback: null, truncated: false } : m));
+    } else {
+      setSessionMessages(prev => [...prev, { id: aiId, text: '', sender: SenderType.AI, timestamp: new Date(), feedback: null, parentId: localUserId }]);
+      setActiveLeafId(aiId);
+    }
+    setStreamingMessageId(aiId);
     let accumulated = '';
+    const keepAsNewVariant = (truncated: boolean) => {
+      if (!regenerated) return;
+      const variants = [...getVariants(regenerated), { text: accumulated, feedback: null, ...(truncated ? { truncated: true } : {}), createdAt: new Date() }];
+      setSessionMessages(prev => prev.map(m => m.id === aiId ? withActiveVariant({ ...m, variants }, variants.length - 1) : m));
+    };
+    const restoreRegenerated = () =>
+      setSessionMessages(prev => prev.map(m => m.id === aiId && regenerated ? regenerated : m));
     try {
-      const stream = await sendMessageStream(text, uid);
+      // The server uses the chat's saved model and temperature.
+      const stream = await sendMessageStream(sessionId, text, uid, controller.signal, branch);
       if (stream) {
-        for await (const chunk of stream) {
-          accumulated += chunk.text || '';
-          setCurrentMessages(prev => prev.map(m => m.id === aiId ? { ...m, text: accumulated } : m));
+        for await (const event of stream) {
+          if (event.type === 'start') {
+            started = true;
+            const placeholderId = aiId;
+            aiId = event.aiMessageId;
+            userId = event.userMessageId;
+            setSessionMessages(prev => remapIds(prev, { [localUserId]: event.userMessageId, [placeholderId]: event.aiMessageId }));
+            pending.delete(localUserId);
+            pending.delete(placeholderId);
+            pending.add(userId);
+            pending.add(aiId);
+            setStreamingMessageId(event.aiMessageId);
+            if (!regenerated) rememberActiveLeaf(sessionId, event.aiMessageId);
+            releaseHeldMessages();
+          } else if (event.type === 'delta') {
+            accumulated += event.text;
+            setSessionMessages(prev => prev.map(m => m.id === aiId ? { ...m, text: accumulated } : m));
+          } else if (event.type === 'error') {
+            if (!started) retryable = !!event.retryable;
+            throw new Error(event.message);
+          }
         }
+      }
+      if (!started && !regenerated && !controller.signal.aborted) throw new Error('No response from the server.');
+      // The server saves partial text itself (marked truncated) when the stream is stopped.
+      if (controller.signal.aborted) {
         if (accumulated.trim()) {
-          await addMessageToFirestore(uid, sessionId, { text: accumulated, sender: SenderType.AI });
+          if (regenerated) keepAsNewVariant(true);
+          else setSessionMessages(prev => prev.map(m => m.id === aiId ? { ...m, truncated: true } : m));
+        } else if (regenerated) {
+          restoreRegenerated();
+        } else {
+          setSessionMessages(prev => prev.filter(m => m.id !== aiId));
+          setActiveLeafId(userId);
         }
+        if (started) result = { status: 'sent', userMessageId: userId, leafId: accumulated.trim() ? aiId : userId };
+      } else {
+        if (regenerated) keepAsNewVariant(false);
+        result = { status: 'sent', userMessageId: userId, leafId: aiId };
       }
-    } catch (e) {
-      setCurrentMessages(prev => prev.map(m => m.id === aiId ? { ...m, text: "Trouble thinking... ✨" } : m));
+    } catch (e: any) {
+      console.error("AI response error:", e);
+      if (regenerated) {
+        restoreRegenerated();
+      } else if (!started) {
+        // Nothing was stored: the caller queues the turn, which then shows from the outbox.
+        setSessionMessages(prev => prev.filter(m => m.id !== aiId && m.id !== localUserId));
+        setActiveLeafId(localUserId);
+        result = { status: 'not_sent', error: e.message || 'Network error.', retryable };
+      } else {
+        unsavedMessageIdsRef.current.add(aiId);
+        setSessionMessages(prev => prev.map(m => m.id === aiId ? { ...m, text: "Trouble thinking... ✨" } : m));
+      }
+      if (started) result = { status: 'sent', userMessageId: userId, leafId: userId };
     } finally {
+      // Stopped before `start`: the turn was never confirmed as stored; keep it on screen only.
+      if (!regenerated && !started && result.status === 'stopped') unsavedMessageIdsRef.current.add(localUserId);
+      pending.delete(userId);
+      pending.delete(aiId);
+      releaseHeldMessages();
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setIsLoadingAiResponse(false);
     }
+    return result;
   };
 
+  // Hands a queued turn to the server, creating its chat first if it was started offline.
+  const deliverQueuedMessage = async (entry: OutboxEntry): Promise<OutboxDelivery> => {
+    if (!currentUser) return { status: 'not_sent', sessionId: entry.sessionId, error: 'Not signed in.', retryable: true };
+    const uid = currentUser.uid;
+    let sessionId = entry.sessionId;
+    if (!sessionId) {
+      try {
+        const fallbackTitle = generateFallbackTitle(entry.text);
+        const newSession = await createChatSessionInFirestore(uid, fallbackTitle, entry.text, entry.settings);
+        sessionId = newSession.id;
+        setAllChatSessions(prev => prev.some(s => s.id === newSession.id) ? prev : [newSession, ...prev]);
+        titleNewChat(uid, newSession.id, entry.text, fallbackTitle);
+      } catch (e: any) {
+        return { status: 'not_sent', sessionId: null, error: e.message || 'Could not create the chat.', retryable: true };
+      }
+    }
+
+    const shownChatId = activeChatIdRef.current;
+    if (shownChatId !== entry.localSessionId && shownChatId !== sessionId) {
+      const result = await sendTurnInBackground(sessionId, entry.text, uid, entry.parentId);
+      return result.status === 'sent' ? { status: 'sent', sessionId, leafId: result.leafId } : { ...(result as Extract<TurnResult, { status: 'not_sent' }>), sessionId };
+    }
+
+    // The chat is on screen: stream the reply into it like a normal send.
+    if (shownChatId !== sessionId) {
+      setActiveChatId(sessionId);
+      localStorage.setItem(`${LOCAL_STORAGE_ACTIVE_CHAT_ID_KEY}_${uid}`, sessionId);
+    }
+    setSessionMessages(prev => [...prev, queuedMessage(entry, 'pending')]);
+    const result = await streamAiResponse(entry.text, sessionId, uid, entry.id, { parentId: entry.parentId });
+    if (result.status === 'sent') {
+      setSessionMessages(prev => prev.map(m => m.id === result.userMessageId ? { ...m, sendStatus: 'sent' } : m));
+      // Keep the turns still waiting behind this one on screen.
+      const queuedAfter = outbox.entries.filter(e => e.localSessionId === entry.localSessionId && e.id !== entry.id);
+      if (queuedAfter.length) setActiveLeafId(queuedAfter[queuedAfter.length - 1].id);
+      return { status: 'sent', sessionId, leafId: result.leafId };
+    }
+    if (result.status === 'stopped') {
+      // Back to the outbox as failed, so it can be retried or discarded.
+      unsavedMessageIdsRef.current.delete(entry.id);
+      setSessionMessages(prev => prev.filter(m => m.id !== entry.id));
+      return { status: 'not_sent', sessionId, error: 'Sending was stopped.', retryable: false };
+    }
+    return { ...result, sessionId };
+  };
+
+  const retryQueuedMessage = useCallback((messageId: string) => outbox.retry(messageId), [outbox.retry]);
+
+  const discardQueuedMessage = useCallback((messageId: string) => {
+    const entry = outbox.discard(messageId);
+    if (entry && activeLeafId === messageId) setActiveLeafId(entry.parentId);
+  }, [outbox.discard, activeLeafId]);
+
+  const stopAiResponse = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const updateFeedback = useCallback(async (messageId: string, rating: 'good' | 'bad' | null) => {
     if (!currentUser || !activeChatId) return;
     
-    // Update local state first for instant feedback
-    setCurrentMessages(prev => prev.map(m => m.id === messageId ? { ...m, feedback: rating } : m));
+    // Update local state first for instant feedback; it belongs to the variant on screen.
+    setSessionMessages(prev => prev.map(m => {
+      if (m.id !== messageId) return m;
+      if (!m.variants?.length) return { ...m, feedback: rating };
+      const activeIndex = m.activeVariantIndex ?? m.variants.length - 1;
+      return { ...m, feedback: rating, variants: m.variants.map((v, i) => i === activeIndex ? { ...v, feedback: rating } : v) };
+    }));
     
     try {
       await updateMessageFeedbackInFirestore(currentUser.uid, activeChatId, messageId, rating);
@@ -105,93 +390,204 @@ export function useChat(currentUser: User | null) {
   const editMessage = useCallback(async (messageId: string, newText: string) => {
     if (!currentUser || !activeChatId || !newText.trim()) return;
 
-    const msgIndex = currentMessages.findIndex(m => m.id === messageId);
-    if (msgIndex === -1) return;
-
-    const truncatedMessages = currentMessages.slice(0, msgIndex + 1);
-    const updatedUserMsg = { ...truncatedMessages[msgIndex], text: newText };
-    truncatedMessages[msgIndex] = updatedUserMsg;
+    const original = sessionMessages.find(m => m.id === messageId);
+    if (!original) return;
 
-    setCurrentMessages(truncatedMessages);
-    setConversationContextFromAppMessages(truncatedMessages);
+    // The edit becomes a new sibling of the original; the old branch stays reachable.
+    const editedMessage: Message = {
+      id: generateId(), text: newText, sender: SenderType.USER, timestamp: new Date(), parentId: original.parentId ?? null,
+    };
+    setSessionMessages(prev => [...prev, editedMessage]);
+    setActiveLeafId(editedMessage.id);
 
     try {
-      await updateMessageInFirestore(currentUser.uid, activeChatId, messageId, newText);
-      await streamAiResponse(newText, activeChatId, currentUser.uid);
+      const result = await streamAiResponse(newText, activeChatId, currentUser.uid, editedMessage.id, { editMessageId: messageId });
+      if (result.status === 'not_sent') {
+        outbox.queue({
+          id: editedMessage.id, sessionId: activeChatId, localSessionId: activeChatId, text: newText, parentId: original.parentId ?? null,
+        }, result);
+      }
     } catch (e) {
       console.error("Edit message error:", e);
     }
-  }, [currentUser, activeChatId, currentMessages]);
+  }, [currentUser, activeChatId, sessionMessages, outbox.queue]);
+
+  const regenerateResponse = useCallback(async (aiMessageId: string) => {
+    if (!currentUser || !activeChatId || activeChatId.startsWith("PENDING_") || isLoadingAiResponse) return;
+    const target = sessionMessages.find(m => m.id === aiMessageId);
+    const prompt = target && sessionMessages.find(m => m.id === target.parentId && m.sender === SenderType.USER);
+    if (!prompt) return;
+    if (unsavedMessageIdsRef.current.has(aiMessageId)) {
+      // A failed reply was never saved, so there is nothing to add a variant to; ask again on a new branch.
+      unsavedMessageIdsRef.current.delete(aiMessageId);
+      setSessionMessages(prev => prev.filter(m => m.id !== aiMessageId));
+      await editMessage(prompt.id, prompt.text);
+      return;
+    }
+    await streamAiResponse(prompt.text, activeChatId, currentUser.uid, prompt.id, { regenerateMessageId: aiMessageId });
+  }, [currentUser, activeChatId, isLoadingAiResponse, sessionMessages, editMessage]);
+
+  const selectVariant = useCallback((messageId: string, variantIndex: number) => {
+    if (!activeChatId || isLoadingAiResponse) return;
+    setSessionMessages(prev => prev.map(m => m.id === messageId ? withActiveVariant(m, variantIndex) : m));
+    selectMessageVariantInFirestore(activeChatId, messageId, variantIndex)
+      .catch(e => console.error("Variant switch error:", e));
+  }, [activeChatId, isLoadingAiResponse]);
+
+  // Shows another version of a message, continuing where that branch was last left.
+  const selectBranch = useCallback((messageId: string) => {
+    if (!activeChatId || isLoadingAiResponse) return;
+    const leafId = latestLeafFrom(sessionMessages, messageId);
+    rememberActiveLeaf(activeChatId, leafId);
+    if (!activeChatId.startsWith("PENDING_")) {
+      setActiveLeafInFirestore(activeChatId, leafId).catch(e => console.error("Branch switch error:", e));
+    }
+  }, [activeChatId, sessionMessages, isLoadingAiResponse]);
+
+  // Brings a message, such as a search hit, onto the active path by switching to
+  // its branch. 'loading' until the chat's messages arrive, 'missing' if it is not there.
+  const revealMessage = useCallback((messageId: string): 'shown' | 'loading' | 'missing' => {
+    if (!sessionMessages.length) return 'loading';
+    if (!sessionMessages.some(m => m.id === messageId)) return 'missing';
+    if (!currentMessages.some(m => m.id === messageId)) selectBranch(messageId);
+    return 'shown';
+  }, [sessionMessages, currentMessages, selectBranch]);
 
   const sendMessage = useCallback(async (text: string) => {
     if (!currentUser || !text.trim()) return;
 
-    // CRITICAL FIX: Handle legacy session memory processing WITHOUT awaiting it.
-    // If getMessagesForSession hangs (e.g. permission issue on old data), it won't block the new chat.
+    // Handle legacy session memory processing WITHOUT awaiting it, so it never blocks the new chat.
     if (!activeChatId && previousActiveSessionIdToProcessOnNewChatRef.current) {
         const oldId = previousActiveSessionIdToProcessOnNewChatRef.current;
         previousActiveSessionIdToProcessOnNewChatRef.current = null;
-        
-        getMessagesForSession(currentUser.uid, oldId).then(oldMsgs => {
-            if (oldMsgs && oldMsgs.length > 0) {
-                processMemory(currentUser.uid, oldId, oldMsgs);
-            }
-        }).catch(e => console.warn("[useChat] Legacy cleanup background failed:", e));
+        processMemory(currentUser.uid, oldId);
     }
 
-    const userMessage: Message = { id: generateId(), text, sender: SenderType.USER, timestamp: new Date() };
+    // Once a chat has queued turns, later ones queue behind them to keep their order.
+    const queuedHere = outbox.entries.filter(isQueuedInActiveChat);
+    const isNewChat = !activeChatId || (activeChatId.startsWith("PENDING_") && !queuedHere.length);
+    const parentId = isNewChat ? null
+      : [...currentMessages].reverse().find(m => !unsavedMessageIdsRef.current.has(m.id))?.id ?? null;
+    const userMessage: Message = { id: generateId(), text, sender: SenderType.USER, timestamp: new Date(), parentId };
+    const queueMessage = (localSessionId: string, failure?: { error: string; retryable: boolean }) => outbox.queue({
+      id: userMessage.id,
+      sessionId: queuedHere[0]?.sessionId ?? (localSessionId.startsWith("PENDING_") ? null : localSessionId),
+      localSessionId: queuedHere[0]?.localSessionId ?? localSessionId,
+      settings: queuedHere.length ? queuedHere[0].settings : newChatSettings,
+      text,
+      parentId,
+    }, failure);
 
-    if (!activeChatId || activeChatId.startsWith("PENDING_")) {
-      if (!activeChatId) setActiveChatId(`PENDING_${generateId()}`);
-      setCurrentMessages([userMessage]);
+    if (!navigator.onLine || queuedHere.length) {
+      const localSessionId = activeChatId ?? `PENDING_${generateId()}`;
+      if (isNewChat) {
+        setActiveChatId(localSessionId);
+        setSessionMessages([]);
+      }
+      setActiveLeafId(userMessage.id);
+      queueMessage(localSessionId);
+      return;
+    }
+
+    if (isNewChat) {
+      const localSessionId = activeChatId ?? `PENDING_${generateId()}`;
+      if (!activeChatId) setActiveChatId(localSessionId);
+      setSessionMessages([userMessage]);
+      setActiveLeafId(userMessage.id);
       setIsLoadingAiResponse(true);
 
+      let newSession: ChatSession;
+      const fallbackTitle = generateFallbackTitle(text);
       try {
-        startNewOpenAIChatSession();
-        const fallbackTitle = generateFallbackTitle(text);
-        const newSession = await createChatSessionInFirestore(currentUser.uid, fallbackTitle, text);
-        setActiveChatId(newSession.id);
-        setAllChatSessions(prev => [newSession, ...prev]);
-        localStorage.setItem(`${LOCAL_STORAGE_ACTIVE_CHAT_ID_KEY}_${currentUser.uid}`, newSession.id);
-        const finalUserMsg = await addMessageToFirestore(currentUser.uid, newSession.id, { text, sender: SenderType.USER });
-        setCurrentMessages([finalUserMsg]);
-        await streamAiResponse(text, newSession.id, currentUser.uid);
-
-        generateChatTitle(text, currentUser.uid).then(betterTitle => {
-          if (betterTitle && betterTitle !== fallbackTitle) {
-            updateChatSessionTitleInFirestore(currentUser.uid, newSession.id, betterTitle);
-            setAllChatSessions(prev => prev.map(s => s.id === newSession.id ? { ...s, title: betterTitle } : s));
-          }
-        });
-      } catch (e) { 
+        newSession = await createChatSessionInFirestore(currentUser.uid, fallbackTitle, text, newChatSettings);
+      } catch (e: any) {
         console.error("New chat creation error:", e);
-        setIsLoadingAiResponse(false); 
+        setIsLoadingAiResponse(false);
+        // The chat is created again when the queued turn is delivered.
+        setSessionMessages([]);
+        queueMessage(localSessionId, { error: e.message || 'Could not create the chat.', retryable: true });
+        return;
       }
-    } else {
-      const finalMsg = await addMessageToFirestore(currentUser.uid, activeChatId, { text, sender: SenderType.USER });
-      setCurrentMessages(prev => [...prev, finalMsg]);
-      await streamAiResponse(text, activeChatId, currentUser.uid);
+      setActiveChatId(newSession.id);
+      // The sessions listener may already have delivered it.
+      setAllChatSessions(prev => prev.some(s => s.id === newSession.id) ? prev : [newSession, ...prev]);
+      localStorage.setItem(`${LOCAL_STORAGE_ACTIVE_CHAT_ID_KEY}_${currentUser.uid}`, newSession.id);
+      const result = await streamAiResponse(text, newSession.id, currentUser.uid, userMessage.id, { parentId: null });
+      if (result.status === 'not_sent') queueMessage(newSession.id, result);
+      titleNewChat(currentUser.uid, newSession.id, text, fallbackTitle);
+    } else if (activeChatId) {
+      setSessionMessages(prev => [...prev, userMessage]);
+      setActiveLeafId(userMessage.id);
+      const result = await streamAiResponse(text, activeChatId, currentUser.uid, userMessage.id, { parentId });
+      if (result.status === 'not_sent') queueMessage(activeChatId, result);
     }
-  }, [currentUser, activeChatId, processMemory]);
+  }, [currentUser, activeChatId, currentMessages, processMemory, outbox.entries, outbox.queue, newChatSettings]);
 
-  const startNewChat = useCallback(() => {
-    if (currentUser && activeChatId) processMemory(currentUser.uid, activeChatId, currentMessages);
-    startNewOpenAIChatSession();
+  const activeSession = activeChatId ? allChatSessions.find(s => s.id === activeChatId) : undefined;
+  // What the picker shows: the open chat's settings, or those for the next new chat.
+  const chatSettings: ChatSettings = activeSession
+    ? { personaId: activeSession.personaId ?? null, model: activeSession.model, temperature: activeSession.temperature }
+    : newChatSettings;
+
+  const setNewChatPersona = useCallback((personaId: string | null) => {
+    setNewChatSettings(prev => ({ ...prev, personaId }));
+  }, []);
+
+  // Saved on the open chat (rolled back if the write fails), or kept for the next new chat.
+  const updateChatSettings = useCallback(async (changes: Pick<ChatSettings, 'model' | 'temperature'>) => {
+    const session = activeChatId ? allChatSessions.find(s => s.id === activeChatId) : undefined;
+    if (!session) {
+      setNewChatSettings(prev => ({ ...prev, ...changes }));
+      return;
+    }
+    const previous = { model: session.model, temperature: session.temperature };
+    setAllChatSessions(prev => prev.map(s => s.id === session.id ? { ...s, ...changes } : s));
+    try {
+      await updateChatSessionSettingsInFirestore(session.id, changes);
+    } catch (e) {
+      console.error("Failed to update chat settings:", e);
+      setAllChatSessions(prev => prev.map(s => s.id === session.id ? { ...s, ...previous } : s));
+    }
+  }, [activeChatId, allChatSessions]);
+
+  // Leaves the open chat without remembering it, e.g. when it was just trashed.
+  const closeChat = useCallback(() => {
+    pendingMessageIdsRef.current.clear();
+    heldMessagesRef.current = null;
     setActiveChatId(null);
-    setCurrentMessages([]);
-  }, [currentUser, activeChatId, currentMessages, processMemory]);
+    setSessionMessages([]);
+    setActiveLeafId(null);
+  }, []);
+
+  const startNewChat = useCallback(() => {
+    if (currentUser && activeChatId && currentMessages.length > 0) processMemory(currentUser.uid, activeChatId);
+    closeChat();
+  }, [currentUser, activeChatId, currentMessages, processMemory, closeChat]);
 
   return {
-    currentMessages, setCurrentMessages,
+    currentMessages,
+    branchInfo,
     allChatSessions, setAllChatSessions,
     activeChatId, setActiveChatId,
+    chatSettings,
+    setNewChatPersona,
+    updateChatSettings,
     isLoadingAiResponse,
+    streamingMessageId,
     isSessionsLoading,
     sendMessage,
+    stopAiResponse,
     startNewChat,
+    closeChat,
     selectChat,
     processMemory,
     updateFeedback,
-    editMessage
+    editMessage,
+    selectBranch,
+    revealMessage,
+    regenerateResponse,
+    selectVariant,
+    retryQueuedMessage,
+    discardQueuedMessage
   };
 }
\ No newline at end of file
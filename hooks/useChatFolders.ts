@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, Dispatch, SetStateAction } from 'react';
+import { User } from 'firebase/auth';
+import { ChatFolder, ChatSession, ChatSessionOrganization } from '../types';
+import {
+  getChatFolders,
+  createChatFolderInFirestore,
+  renameChatFolderInFirestore,
+  deleteChatFolderFromFirestore,
+  updateChatSessionOrganizationInFirestore
+} from '../services/firebaseService';
+
+// Sidebar folders, plus pinning, filing and tagging of sessions. Session
+// changes are applied locally first and rolled back if the write fails.
+export function useChatFolders(
+  currentUser: User | null,
+  allChatSessions: ChatSession[],
+  setAllChatSessions: Dispatch<SetStateAction<ChatSession[]>>
+) {
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
+
+  useEffect(() => {
+    if (currentUser) {
+      getChatFolders(currentUser.uid).then(setFolders);
+    } else {
+      setFolders([]);
+    }
+  }, [currentUser]);
+
+  const createFolder = useCallback(async (name: string): Promise<ChatFolder | null> => {
+    if (!currentUser || !name.trim()) return null;
+    try {
+      const folder = await createChatFolderInFirestore(currentUser.uid, name.trim());
+      setFolders(prev => [...prev, folder]);
+      return folder;
+    } catch (e) {
+      console.error("Failed to create folder:", e);
+      return null;
+    }
+  }, [currentUser]);
+
+  const renameFolder = useCallback(async (folderId: string, name: string) => {
+    if (!name.trim()) return;
+    try {
+      await renameChatFolderInFirestore(folderId, name.trim());
+      setFolders(prev => prev.map(f => f.id === folderId ? { ...f, name: name.trim() } : f));
+    } catch (e) {
+      console.error("Failed to rename folder:", e);
+    }
+  }, []);
+
+  const deleteFolder = useCallback(async (folderId: string) => {
+    if (!currentUser) return;
+    try {
+      await deleteChatFolderFromFirestore(currentUser.uid, folderId);
+      setFolders(prev => prev.filter(f => f.id !== folderId));
+      setAllChatSessions(prev => prev.map(s => s.folderId === folderId ? { ...s, folderId: null } : s));
+    } catch (e) {
+      console.error("Failed to delete folder:", e);
+    }
+  }, [currentUser, setAllChatSessions]);
+
+  const updateSessionOrganization = useCallback(async (sessionId: string, changes: ChatSessionOrganization) => {
+    const session = allChatSessions.find(s => s.id === sessionId);
+    if (!session) return;
+    const previous: ChatSessionOrganization = {};
+    (Object.keys(changes) as (keyof ChatSessionOrganization)[]).forEach(key => { (previous as any)[key] = session[key]; });
+    setAllChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, ...changes } : s));
+    try {
+      await updateChatSessionOrganizationInFirestore(sessionId, changes);
+    } catch (e) {
+      console.error("Failed to update chat:", e);
+      setAllChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, ...previous } : s));
+    }
+  }, [allChatSessions, setAllChatSessions]);
+
+  return { folders, createFolder, renameFolder, deleteFolder, updateSessionOrganization };
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { User } from 'firebase/auth';
+import {
+  OutboxEntry,
+  OUTBOX_MAX_ATTEMPTS,
+  outboxRetryDelay,
+  listOutboxEntries,
+  saveOutboxEntry,
+  deleteOutboxEntry
+} from '../services/outboxService';
+
+export type OutboxDelivery =
+  | { status: 'sent'; sessionId: string; leafId: string }
+  | { status: 'not_sent'; sessionId: string | null; error: string; retryable: boolean };
+
+export type QueuedMessage = Pick<OutboxEntry, 'id' | 'sessionId' | 'localSessionId' | 'settings' | 'text' | 'parentId'>;
+
+const byCreatedAt = (a: OutboxEntry, b: OutboxEntry) => a.createdAt - b.createdAt;
+
+// Turns of one chat are sent strictly in order, so only the oldest entry of each chat can go next.
+const chatHeads = (entries: OutboxEntry[]) => {
+  const seen = new Set<string>();
+  return entries.filter(e => !seen.has(e.localSessionId) && !!seen.add(e.localSessionId));
+};
+
+const withFailure = (entry: OutboxEntry, error: string, retryable: boolean): OutboxEntry => {
+  // Waiting for the network to come back is not a failed attempt.
+  if (retryable && !navigator.onLine) return { ...entry, status: 'pending', lastError: error };
+  const attempts = entry.attempts + 1;
+  return retryable && attempts < OUTBOX_MAX_ATTEMPTS
+    ? { ...entry, status: 'pending', attempts, nextAttemptAt: Date.now() + outboxRetryDelay(attempts), lastError: error }
+    : { ...entry, status: 'failed', attempts, lastError: error };
+};
+
+// User turns waiting to be sent. Pending entries are retried with backoff and
+// right away when the browser comes back online; failed ones wait for the user.
+// `deliver` sends one entry; nothing is delivered while `paused`.
+export function useOutbox(
+  currentUser: User | null,
+  deliver: (entry: OutboxEntry) => Promise<OutboxDelivery>,
+  paused: boolean
+) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const deliverRef = useRef(deliver);
+  deliverRef.current = deliver;
+  const isDeliveringRef = useRef(false);
+
+  // Applies a change on screen first; if IndexedDB is unavailable the outbox
+  // still works for this tab, it just does not survive a reload.
+  const update = useCallback((changed: OutboxEntry[], removedIds: string[] = []) => {
+    const changedIds = new Set(changed.map(e => e.id));
+    const next = [
+      ...entriesRef.current.filter(e => !changedIds.has(e.id) && !removedIds.includes(e.id)),
+      ...changed,
+    ].sort(byCreatedAt);
+    entriesRef.current = next;
+    setEntries(next);
+    Promise.all([...changed.map(saveOutboxEntry), ...removedIds.map(deleteOutboxEntry)])
+      .catch(e => console.warn("[useOutbox] Could not persist the outbox:", e));
+  }, []);
+
+  const uid = currentUser?.uid;
+  useEffect(() => {
+    entriesRef.current = [];
+    setEntries([]);
+    if (!uid) return;
+    let cancelled = false;
+    listOutboxEntries(uid)
+      .then(stored => {
+        if (cancelled || !stored.length) return;
+        entriesRef.current = stored;
+        setEntries(stored);
+      })
+      .catch(e => console.warn("[useOutbox] Could not load the outbox:", e));
+    return () => { cancelled = true; };
+  }, [uid]);
+
+  useEffect(() => {
+    const handleOnline = () => update(
+      entriesRef.current.filter(e => e.status === 'pending').map(e => ({ ...e, nextAttemptAt: Date.now() }))
+    );
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [update]);
+
+  const deliverNext = useCallback(async () => {
+    if (isDeliveringRef.current || !navigator.onLine) return;
+    const entry = chatHeads(entriesRef.current).find(e => e.status === 'pending' && e.nextAttemptAt <= Date.now());
+    if (!entry) return;
+    isDeliveringRef.current = true;
+    try {
+      const result = await deliverRef.current(entry);
+      const laterTurns = entriesRef.current.filter(e => e.id !== entry.id && e.localSessionId === entry.localSessionId);
+      if (result.status === 'sent') {
+        // Later turns now belong to the stored chat and continue after the delivered one.
+        update(laterTurns.map(e => ({
+          ...e,
+          sessionId: result.sessionId,
+          parentId: e.parentId === entry.id ? result.leafId : e.parentId,
+        })), [entry.id]);
+      } else if (entriesRef.current.some(e => e.id === entry.id)) {
+        update([
+          withFailure({ ...entry, sessionId: result.sessionId }, result.error, result.retryable),
+          ...(result.sessionId ? laterTurns.map(e => ({ ...e, sessionId: result.sessionId })) : []),
+        ]);
+      }
+    } finally {
+      isDeliveringRef.current = false;
+    }
+  }, [update]);
+
+  // One delivery per run; the state change it makes schedules the next one.
+  useEffect(() => {
+    if (!uid || paused) return;
+    const due = chatHeads(entries).filter(e => e.status === 'pending').map(e => e.nextAttemptAt);
+    if (!due.length) return;
+    const timer = window.setTimeout(deliverNext, Math.max(0, Math.min(...due) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [entries, uid, paused, deliverNext]);
+
+  // `failure` records a send that was already attempted once.
+  const queue = useCallback((message: QueuedMessage, failure?: { error: string; retryable: boolean }) => {
+    if (!uid) return;
+    const entry: OutboxEntry = {
+      ...message, userId: uid, createdAt: Date.now(), status: 'pending', attempts: 0, nextAttemptAt: Date.now(),
+    };
+    update([failure ? withFailure(entry, failure.error, failure.retryable) : entry]);
+  }, [uid, update]);
+
+  const retry = useCallback((id: string) => {
+    const entry = entriesRef.current.find(e => e.id === id);
+    if (!entry) return;
+    update([{ ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined }]);
+  }, [update]);
+
+  // Returns the discarded entry; turns queued after it move up to its parent.
+  const discard = useCallback((id: string): OutboxEntry | undefined => {
+    const entry = entriesRef.current.find(e => e.id === id);
+    if (!entry) return undefined;
+    const children = entriesRef.current.filter(e => e.parentId === id).map(e => ({ ...e, parentId: entry.parentId }));
+    update(children, [id]);
+    return entry;
+  }, [update]);
+
+  return { entries, queue, retry, discard };
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback, Dispatch, SetStateAction } from 'react';
+import { User } from 'firebase/auth';
+import { ChatSession, Persona } from '../types';
+import {
+  getPersonas,
+  createPersonaInFirestore,
+  updatePersonaInFirestore,
+  deletePersonaFromFirestore
+} from '../services/firebaseService';
+
+// The user's persona library. Unlike folders, failures are rethrown so the
+// persona editor can keep the form open and show what went wrong.
+export function usePersonas(
+  currentUser: User | null,
+  setAllChatSessions: Dispatch<SetStateAction<ChatSession[]>>
+) {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+
+  useEffect(() => {
+    if (currentUser) {
+      getPersonas(currentUser.uid).then(setPersonas);
+    } else {
+      setPersonas([]);
+    }
+  }, [currentUser]);
+
+  const createPersona = useCallback(async (name: string, prompt: string): Promise<Persona> => {
+    if (!currentUser) throw new Error("You need to be signed in.");
+    const persona = await createPersonaInFirestore(currentUser.uid, name.trim(), prompt.trim());
+    setPersonas(prev => [...prev, persona]);
+    return persona;
+  }, [currentUser]);
+
+  const updatePersona = useCallback(async (personaId: string, name: string, prompt: string) => {
+    const changes = { name: name.trim(), prompt: prompt.trim() };
+    await updatePersonaInFirestore(personaId, changes);
+    setPersonas(prev => prev.map(p => p.id === personaId ? { ...p, ...changes } : p));
+  }, []);
+
+  const deletePersona = useCallback(async (personaId: string) => {
+    if (!currentUser) return;
+    await deletePersonaFromFirestore(currentUser.uid, personaId);
+    setPersonas(prev => prev.filter(p => p.id !== personaId));
+    setAllChatSessions(prev => prev.map(s => s.personaId === personaId ? { ...s, personaId: null } : s));
+  }, [currentUser, setAllChatSessions]);
+
+  return { personas, createPersona, updatePersona, deletePersona };
+}
@@ -2,15 +2,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharedChatView from './components/SharedChatView';
+import { SHARE_QUERY_PARAM } from './services/shareService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Share links open a public read-only view instead of the signed-in app.
+const shareId = new URLSearchParams(window.location.search).get(SHARE_QUERY_PARAM);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {shareId ? <SharedChatView shareId={shareId} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
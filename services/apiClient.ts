@@ -0,0 +1,15 @@
+import { getAuth } from 'firebase/auth';
+
+// fetch() against our own /api routes with the signed-in user's ID token attached.
+// The server derives the uid from this token, so callers never send userId themselves.
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const currentUser = getAuth().currentUser;
+  if (!currentUser) throw new Error("Not signed in.");
+  const idToken = await currentUser.getIdToken();
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${idToken}`);
+  if (init.body && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+
+  return fetch(`${window.location.origin}${path}`, { ...init, headers });
+};
@@ -0,0 +1,35 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authAdmin } from './firebaseAdmin.js';
+
+// Route handlers wrapped with `withAuth` receive the caller's uid from a verified
+// Firebase ID token; nothing in the request body is trusted for identity.
+export type AuthedHandler = (req: VercelRequest, res: VercelResponse, uid: string) => unknown;
+
+const getBearerToken = (req: VercelRequest): string | null => {
+  const header = req.headers.authorization;
+  if (!header || typeof header !== 'string') return null;
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token.trim() : null;
+};
+
+export function withAuth(handler: AuthedHandler) {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    const idToken = getBearerToken(req);
+    if (!idToken) {
+      return res.status(401).json({ error: 'Missing "Authorization: Bearer <idToken>" header.' });
+    }
+    if (!authAdmin) {
+      console.error("[authAdmin] Firebase Admin Auth not initialized. Check FIREBASE_ADMIN_SDK_CONFIG.");
+      return res.status(500).json({ error: 'Server configuration error: Firebase Admin SDK not available.' });
+    }
+
+    let uid: string;
+    try {
+      uid = (await authAdmin.verifyIdToken(idToken)).uid;
+    } catch (e: any) {
+      console.warn("[authAdmin] Rejected ID token:", e.code || e.message);
+      return res.status(401).json({ error: 'Invalid or expired ID token.' });
+    }
+    return handler(req, res, uid);
+  };
+}
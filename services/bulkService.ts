@@ -0,0 +1,68 @@
+import { apiFetch } from './apiClient';
+
+// Match the per-request limits in /api/bulkSessions.
+const BULK_CHUNK_SIZE = 100;
+const REBUILD_CHUNK_SIZE = 5;
+
+type BulkAction = 'trash' | 'restore' | 'move' | 'rebuildMemory';
+
+const postBulkAction = async (body: { action: BulkAction; sessionIds: string[]; folderId?: string | null }) => {
+  const response = await apiFetch('/api/bulkSessions', { method: 'POST', body: JSON.stringify(body) });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Bulk request failed with status ${response.status}`);
+  return data;
+};
+
+// Large selections go out as several requests, one after another. A failure
+// stops there; the chunks already sent stay applied.
+const postInChunks = async (action: 'trash' | 'restore' | 'move', sessionIds: string[], folderId?: string | null) => {
+  let data: any = {};
+  for (let i = 0; i < sessionIds.length; i += BULK_CHUNK_SIZE) {
+    data = await postBulkAction({ action, sessionIds: sessionIds.slice(i, i + BULK_CHUNK_SIZE), folderId });
+  }
+  return data;
+};
+
+// Returns when the chats will be deleted for good unless they are restored.
+export const bulkTrashChats = async (sessionIds: string[]): Promise<Date> => {
+  const { purgeAt } = await postInChunks('trash', sessionIds);
+  return new Date(purgeAt);
+};
+
+export const bulkRestoreChats = async (sessionIds: string[]): Promise<void> => {
+  await postInChunks('restore', sessionIds);
+};
+
+// A null folderId takes the chats out of their folders.
+export const bulkMoveChats = async (sessionIds: string[], folderId: string | null): Promise<void> => {
+  await postInChunks('move', sessionIds, folderId);
+};
+
+export interface MemoryRebuildResult {
+  rebuilt: number;
+  skipped: number;
+  failed: { sessionId: string; error: string }[];
+}
+
+// Re-summarizes the chats a few at a time, reporting how many were sent so far.
+// A failed request is counted against its chats and the rest carry on.
+export const bulkRebuildMemory = async (
+  sessionIds: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<MemoryRebuildResult> => {
+  const result: MemoryRebuildResult = { rebuilt: 0, skipped: 0, failed: [] };
+  onProgress?.(0, sessionIds.length);
+  for (let i = 0; i < sessionIds.length; i += REBUILD_CHUNK_SIZE) {
+    const chunk = sessionIds.slice(i, i + REBUILD_CHUNK_SIZE);
+    try {
+      const chunkResult: MemoryRebuildResult = await postBulkAction({ action: 'rebuildMemory', sessionIds: chunk });
+      result.rebuilt += chunkResult.rebuilt;
+      result.skipped += chunkResult.skipped;
+      result.failed.push(...chunkResult.failed);
+    } catch (e: any) {
+      result.failed.push(...chunk.map(sessionId => ({ sessionId, error: e.message || 'Rebuild failed.' })));
+    }
+    onProgress?.(Math.min(i + chunk.length, sessionIds.length), sessionIds.length);
+  }
+  return result;
+};
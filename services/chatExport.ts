@@ -0,0 +1,114 @@
+import { ChatSession, ExportFormat, ExportedMessage, ExportedSession, Message as AppMessage, SenderType } from '../types.js';
+import { withParentIds, getActivePath } from '../utils/messageTree.js';
+
+// Formatting for /api/export. Each format is produced as a header, one chunk
+// per session and a footer, so the route can stream sessions as it loads them.
+export const CHAT_EXPORT_SCHEMA_VERSION = 1;
+
+const toIso = (value: Date | { toDate(): Date }) => (value instanceof Date ? value : value.toDate()).toISOString();
+
+const speaker = (sender: AppMessage['sender']) => (sender === SenderType.USER ? 'You' : 'Suru');
+
+const formatTimestamp = (value: Date | { toDate(): Date }) =>
+  (value instanceof Date ? value : value.toDate()).toLocaleString('en-US', {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// JSON keeps every branch and variant; the readable formats show the branch the user was viewing.
+export const toExportedSession = (session: ChatSession, messages: AppMessage[]): ExportedSession => ({
+  id: session.id,
+  title: session.title,
+  createdAt: toIso(session.createdAt),
+  ...(session.activeLeafId ? { activeLeafId: session.activeLeafId } : {}),
+  messages: withParentIds(messages).map((m): ExportedMessage => ({
+    id: m.id,
+    parentId: m.parentId ?? null,
+    sender: m.sender,
+    text: m.text,
+    timestamp: toIso(m.timestamp),
+    feedback: m.feedback ?? null,
+    ...(m.truncated ? { truncated: true } : {}),
+    ...(m.variants?.length ? {
+      variants: m.variants.map(v => ({
+        text: v.text,
+        feedback: v.feedback ?? null,
+        ...(v.truncated ? { truncated: true } : {}),
+        createdAt: toIso(v.createdAt),
+      })),
+      activeVariantIndex: m.activeVariantIndex ?? m.variants.length - 1,
+    } : {}),
+  })),
+});
+
+const visibleMessages = (session: ChatSession, messages: AppMessage[]) =>
+  getActivePath(withParentIds(messages), session.activeLeafId);
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Inter, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.55; }
+  h1 { font-size: 1.4rem; margin: 2.5rem 0 0.25rem; }
+  .meta { color: #777; font-size: 0.8rem; margin-bottom: 1.5rem; }
+  .message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 12px; page-break-inside: avoid; }
+  .user { background: #f3eef8; }
+  .ai { border: 1px solid #eee; }
+  .speaker { font-weight: 600; font-size: 0.8rem; color: #555; margin-bottom: 0.25rem; }
+  .text { white-space: pre-wrap; word-wrap: break-word; }
+  section + section { page-break-before: always; }
+  @media print { body { margin: 0; } }
+`;
+
+export const exportContentType: Record<ExportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+export const exportFileExtension: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+export const exportHeader = (format: ExportFormat, exportedAt: Date): string => {
+  switch (format) {
+    case 'json':
+      return `{"schemaVersion":${CHAT_EXPORT_SCHEMA_VERSION},"app":"SuruGPT","exportedAt":${JSON.stringify(exportedAt.toISOString())},"sessions":[`;
+    case 'html':
+      return `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n<title>SuruGPT export</title>\n<style>${HTML_STYLE}</style>\n</head>\n<body>\n`;
+    case 'markdown':
+      return '';
+  }
+};
+
+export const exportSessionChunk = (format: ExportFormat, session: ChatSession, messages: AppMessage[], index: number): string => {
+  switch (format) {
+    case 'json':
+      return (index > 0 ? ',' : '') + JSON.stringify(toExportedSession(session, messages));
+    case 'html': {
+      const body = visibleMessages(session, messages).map(m =>
+        `<div class="message ${m.sender}"><div class="speaker">${speaker(m.sender)} · ${escapeHtml(formatTimestamp(m.timestamp))}</div>` +
+        `<div class="text">${escapeHtml(m.text)}</div></div>`
+      ).join('\n');
+      return `<section>\n<h1>${escapeHtml(session.title)}</h1>\n<div class="meta">${escapeHtml(formatTimestamp(session.createdAt))}</div>\n${body}\n</section>\n`;
+    }
+    case 'markdown': {
+      const body = visibleMessages(session, messages).map(m =>
+        `**${speaker(m.sender)}** · ${formatTimestamp(m.timestamp)}\n\n${m.text}`
+      ).join('\n\n');
+      return `${index > 0 ? '\n\n---\n\n' : ''}# ${session.title}\n\n_${formatTimestamp(session.createdAt)}_\n\n${body}\n`;
+    }
+  }
+};
+
+export const exportFooter = (format: ExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return ']}\n';
+    case 'html':
+      return '</body>\n</html>\n';
+    case 'markdown':
+      return '';
+  }
+};
@@ -0,0 +1,193 @@
+import { ChatExportFile, ExportedSession, ImportSource, SenderType } from '../types.js';
+
+// Parsing for /api/import. Both archive formats are normalized to the same
+// conversation shape, keyed by the ids they had in the source file; the
+// store assigns Firestore ids when writing.
+
+export interface ImportedVariant {
+  text: string;
+  feedback: 'good' | 'bad' | null;
+  truncated?: boolean;
+  createdAt: Date;
+}
+
+export interface ImportedMessage {
+  sourceId: string;
+  parentSourceId: string | null;
+  sender: SenderType;
+  text: string;
+  timestamp: Date;
+  feedback: 'good' | 'bad' | null;
+  truncated?: boolean;
+  variants?: ImportedVariant[];
+  activeVariantIndex?: number;
+}
+
+export interface ImportedConversation {
+  sourceId: string;
+  title: string;
+  createdAt: Date;
+  activeLeafSourceId?: string;
+  messages: ImportedMessage[];
+}
+
+export interface ParsedArchive {
+  source: ImportSource;
+  conversations: ImportedConversation[];
+}
+
+const DEFAULT_TITLE = 'Imported chat';
+const MAX_TITLE_LENGTH = 120;
+
+const cleanTitle = (title: unknown) =>
+  (typeof title === 'string' && title.trim() ? title.trim() : DEFAULT_TITLE).slice(0, MAX_TITLE_LENGTH);
+
+// ChatGPT writes Unix times in seconds (with a fraction); SuruGPT writes ISO strings.
+const fromUnixSeconds = (value: unknown): Date | null =>
+  typeof value === 'number' && Number.isFinite(value) ? new Date(value * 1000) : null;
+
+const fromIso = (value: unknown): Date | null => {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const toFeedback = (value: unknown): 'good' | 'bad' | null => (value === 'good' || value === 'bad' ? value : null);
+
+// --- ChatGPT conversations.json ---
+
+interface ChatGPTNode {
+  id: string;
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    create_time?: number | null;
+    recipient?: string;
+    content?: { content_type?: string; parts?: unknown[] };
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  current_node?: string;
+  mapping: Record<string, ChatGPTNode>;
+}
+
+const isChatGPTArchive = (data: unknown): data is ChatGPTConversation[] =>
+  Array.isArray(data) && data.length > 0 && data.every(c => c && typeof c === 'object' && typeof c.mapping === 'object');
+
+// The visible text of a node, or null for system prompts, tool calls, hidden
+// context and attachments without text.
+const chatGPTText = (node: ChatGPTNode): string | null => {
+  const message = node.message;
+  const role = message?.author?.role;
+  if (!message || (role !== 'user' && role !== 'assistant')) return null;
+  if (message.metadata?.is_visually_hidden_from_conversation) return null;
+  if (message.recipient && message.recipient !== 'all') return null;
+  const contentType = message.content?.content_type;
+  if (contentType !== 'text' && contentType !== 'multimodal_text') return null;
+  const text = (message.content?.parts || []).filter((p): p is string => typeof p === 'string').join('\n').trim();
+  return text || null;
+};
+
+const parseChatGPTConversation = (conversation: ChatGPTConversation, index: number): ImportedConversation => {
+  const nodes = conversation.mapping;
+  const createdAt = fromUnixSeconds(conversation.create_time) || new Date();
+  const kept = new Map<string, string>();
+  Object.values(nodes).forEach(node => {
+    const text = node && chatGPTText(node);
+    if (text) kept.set(node.id, text);
+  });
+
+  // Skipped nodes (system prompts, tool calls) are spliced out: their children
+  // hang off the nearest ancestor that was kept.
+  const keptAncestor = (nodeId: string | null | undefined): string | null => {
+    const seen = new Set<string>();
+    let currentId = nodeId;
+    while (currentId && !seen.has(currentId)) {
+      if (kept.has(currentId)) return currentId;
+      seen.add(currentId);
+      currentId = nodes[currentId]?.parent;
+    }
+    return null;
+  };
+
+  const messages = Array.from(kept, ([id, text]): ImportedMessage => {
+    const node = nodes[id];
+    return {
+      sourceId: id,
+      parentSourceId: keptAncestor(node.parent),
+      sender: node.message!.author!.role === 'user' ? SenderType.USER : SenderType.AI,
+      text,
+      timestamp: fromUnixSeconds(node.message!.create_time) || createdAt,
+      feedback: null,
+    };
+  });
+
+  return {
+    sourceId: conversation.id || conversation.conversation_id || `conversation-${index}`,
+    title: cleanTitle(conversation.title),
+    createdAt,
+    activeLeafSourceId: keptAncestor(conversation.current_node) ?? undefined,
+    messages,
+  };
+};
+
+// --- SuruGPT export (services/chatExport.ts) ---
+
+const isSuruGPTArchive = (data: any): data is ChatExportFile =>
+  !!data && typeof data === 'object' && data.app === 'SuruGPT' && typeof data.schemaVersion === 'number' && Array.isArray(data.sessions);
+
+const parseSuruGPTSession = (session: ExportedSession, index: number): ImportedConversation => {
+  const createdAt = fromIso(session.createdAt) || new Date();
+  const messages = (Array.isArray(session.messages) ? session.messages : [])
+    .filter(m => m && typeof m.id === 'string' && typeof m.text === 'string')
+    .map((m): ImportedMessage => {
+      const timestamp = fromIso(m.timestamp) || createdAt;
+      const variants = Array.isArray(m.variants) && m.variants.length ? m.variants.map((v): ImportedVariant => ({
+        text: String(v.text ?? ''),
+        feedback: toFeedback(v.feedback),
+        ...(v.truncated ? { truncated: true } : {}),
+        createdAt: fromIso(v.createdAt) || timestamp,
+      })) : undefined;
+      return {
+        sourceId: m.id,
+        parentSourceId: typeof m.parentId === 'string' ? m.parentId : null,
+        sender: m.sender === SenderType.USER ? SenderType.USER : SenderType.AI,
+        text: m.text,
+        timestamp,
+        feedback: toFeedback(m.feedback),
+        ...(m.truncated ? { truncated: true } : {}),
+        ...(variants ? {
+          variants,
+          activeVariantIndex: Math.min(Math.max(m.activeVariantIndex ?? variants.length - 1, 0), variants.length - 1),
+        } : {}),
+      };
+    });
+  const sourceIds = new Set(messages.map(m => m.sourceId));
+  // A parent missing from the file would leave its subtree unreachable.
+  messages.forEach(m => { if (m.parentSourceId && !sourceIds.has(m.parentSourceId)) m.parentSourceId = null; });
+
+  return {
+    sourceId: typeof session.id === 'string' ? session.id : `session-${index}`,
+    title: cleanTitle(session.title),
+    createdAt,
+    activeLeafSourceId: session.activeLeafId && sourceIds.has(session.activeLeafId) ? session.activeLeafId : undefined,
+    messages,
+  };
+};
+
+// Returns null when the data is neither a ChatGPT conversations.json nor a SuruGPT JSON export.
+export const parseChatArchive = (data: unknown): ParsedArchive | null => {
+  if (isSuruGPTArchive(data)) {
+    return { source: 'surugpt', conversations: data.sessions.map(parseSuruGPTSession) };
+  }
+  if (isChatGPTArchive(data)) {
+    return { source: 'chatgpt', conversations: data.map(parseChatGPTConversation) };
+  }
+  return null;
+};
@@ -0,0 +1,491 @@
+import { createHash, randomBytes } from 'crypto';
+import { FieldValue, DocumentReference, DocumentData, WriteBatch, Timestamp } from 'firebase-admin/firestore';
+import { dbAdmin } from './firebaseAdmin.js';
+import { ChatSession, ImportSource, Message as AppMessage, MessageVariant, SenderType, SharedChat } from '../types.js';
+import type { ImportedConversation } from './chatImport.js';
+import { withParentIds, getActivePath } from '../utils/messageTree.js';
+import { SEARCH_INDEX_COLLECTION, POSTINGS_SUBCOLLECTION, Posting, buildPostings, postingDocId } from '../utils/searchIndex.js';
+import { PERSONAS_COLLECTION } from '../utils/personas.js';
+import { envNumber } from '../utils/helpers.js';
+
+// Server-side (Admin SDK) access to chat sessions and their messages.
+export const CHAT_SESSIONS_COLLECTION = 'chat_sessions';
+export const MESSAGES_SUBCOLLECTION = 'messages';
+export const SHARED_CHATS_COLLECTION = 'shared_chats';
+const USER_MEMORIES_COLLECTION = 'user_memories';
+const SESSION_SUMMARIES_SUBCOLLECTION = 'session_summaries';
+const FACTS_SUBCOLLECTION = 'facts';
+const CHAT_FOLDERS_COLLECTION = 'chat_folders';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days a chat stays in Trash before the sweep deletes it. Changing it only
+// affects chats trashed afterwards; each chat keeps the purgeAt it was given.
+export const TRASH_RETENTION_DAYS = envNumber('TRASH_RETENTION_DAYS', 30);
+// 128 random bits, so share links cannot be guessed or enumerated.
+const SHARE_ID_BYTES = 16;
+const BATCH_WRITE_LIMIT = 450;
+
+export type SessionLookup =
+  | { status: 'ok'; data: DocumentData }
+  | { status: 'not_found' }
+  | { status: 'forbidden'; ownerId?: string };
+
+export type SessionsLookup =
+  | { status: 'ok'; sessions: { id: string; data: DocumentData }[] }
+  | { status: 'not_found'; sessionIds: string[] }
+  | { status: 'forbidden'; sessionIds: string[] };
+
+const requireDb = () => {
+  if (!dbAdmin) throw new Error("Firebase Admin SDK not available.");
+  return dbAdmin;
+};
+
+const messagesCollection = (sessionId: string) =>
+  requireDb().collection(CHAT_SESSIONS_COLLECTION).doc(sessionId).collection(MESSAGES_SUBCOLLECTION);
+
+const postingsCollection = (userId: string) =>
+  requireDb().collection(SEARCH_INDEX_COLLECTION).doc(userId).collection(POSTINGS_SUBCOLLECTION);
+
+const commitInChunks = async (writes: Array<(batch: WriteBatch) => void>): Promise<void> => {
+  for (let i = 0; i < writes.length; i += BATCH_WRITE_LIMIT) {
+    const batch = requireDb().batch();
+    writes.slice(i, i + BATCH_WRITE_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+const postingWrites = (userId: string, sessionId: string, messageId: string, text: string) => {
+  const { postings, length } = buildPostings(text);
+  return Array.from(postings, ([token, positions]) => (batch: WriteBatch) =>
+    batch.set(postingsCollection(userId).doc(postingDocId(token, sessionId, messageId)), {
+      token, sessionId, messageId, positions, length,
+    }));
+};
+
+// Adds a new message to the keyword search index. Best-effort: failures are
+// logged rather than failing the chat turn.
+const indexMessage = async (userId: string, sessionId: string, messageId: string, text: string): Promise<void> => {
+  try {
+    await commitInChunks(postingWrites(userId, sessionId, messageId, text));
+  } catch (error: any) {
+    console.warn(`[chatStoreAdmin] Could not index message ${messageId} in session ${sessionId}:`, error.message);
+  }
+};
+
+// Re-indexes a message whose text was replaced, dropping postings for words it no longer contains.
+const reindexMessage = async (userId: string, sessionId: string, messageId: string, text: string): Promise<void> => {
+  try {
+    const keep = new Set(Array.from(buildPostings(text).postings.keys(), token => postingDocId(token, sessionId, messageId)));
+    const existing = await postingsCollection(userId).where('messageId', '==', messageId).select().get();
+    await commitInChunks([
+      ...existing.docs.filter(doc => !keep.has(doc.id)).map(doc => (batch: WriteBatch) => batch.delete(doc.ref)),
+      ...postingWrites(userId, sessionId, messageId, text),
+    ]);
+  } catch (error: any) {
+    console.warn(`[chatStoreAdmin] Could not re-index message ${messageId} in session ${sessionId}:`, error.message);
+  }
+};
+
+export const getOwnedSession = async (userId: string, sessionId: string): Promise<SessionLookup> => {
+  const sessionDoc = await requireDb().collection(CHAT_SESSIONS_COLLECTION).doc(sessionId).get();
+  if (!sessionDoc.exists) return { status: 'not_found' };
+  const data = sessionDoc.data() as DocumentData;
+  if (data.userId !== userId) return { status: 'forbidden', ownerId: data.userId };
+  return { status: 'ok', data };
+};
+
+// getOwnedSession for many sessions in one read: every one must exist and
+// belong to the user, otherwise the offending ids are returned.
+export const getOwnedSessions = async (userId: string, sessionIds: string[]): Promise<SessionsLookup> => {
+  const db = requireDb();
+  const snaps = await db.getAll(...sessionIds.map(id => db.collection(CHAT_SESSIONS_COLLECTION).doc(id)));
+  const missing = snaps.filter(snap => !snap.exists).map(snap => snap.id);
+  if (missing.length) return { status: 'not_found', sessionIds: missing };
+  const forbidden = snaps.filter(snap => snap.data()?.userId !== userId).map(snap => snap.id);
+  if (forbidden.length) return { status: 'forbidden', sessionIds: forbidden };
+  return { status: 'ok', sessions: snaps.map(snap => ({ id: snap.id, data: snap.data() as DocumentData })) };
+};
+
+export const isOwnedFolder = async (userId: string, folderId: string): Promise<boolean> => {
+  const folderDoc = await requireDb().collection(CHAT_FOLDERS_COLLECTION).doc(folderId).get();
+  return folderDoc.exists && folderDoc.data()?.userId === userId;
+};
+
+// The prompt of one of the user's personas, or null if it was deleted or is not theirs.
+export const getOwnedPersonaPrompt = async (userId: string, personaId: string): Promise<string | null> => {
+  const personaDoc = await requireDb().collection(PERSONAS_COLLECTION).doc(personaId).get();
+  const data = personaDoc.data();
+  return personaDoc.exists && data?.userId === userId && typeof data.prompt === 'string' ? data.prompt : null;
+};
+
+const toDate = (value: any): Date => (value?.toDate ? value.toDate() : new Date(value ?? Date.now()));
+
+export const toChatSession = (id: string, data: DocumentData): ChatSession => ({
+  id,
+  title: data.title,
+  createdAt: toDate(data.createdAt),
+  userId: data.userId,
+  ...(data.activeLeafId ? { activeLeafId: data.activeLeafId } : {}),
+});
+
+export const listOwnedSessions = async (userId: string): Promise<ChatSession[]> => {
+  const snap = await requireDb().collection(CHAT_SESSIONS_COLLECTION)
+    .where('userId', '==', userId)
+    .orderBy('createdAt', 'desc')
+    .get();
+  // Chats in Trash are left out.
+  return snap.docs.filter(doc => !doc.data().deletedAt).map(doc => toChatSession(doc.id, doc.data()));
+};
+
+// --- Keyword search (/api/search) ---
+
+// The user's chats outside Trash, with the fields search ranks and backfills by.
+export const listSearchableSessions = async (userId: string): Promise<ChatSession[]> => {
+  const snap = await requireDb().collection(CHAT_SESSIONS_COLLECTION)
+    .where('userId', '==', userId)
+    .orderBy('createdAt', 'desc')
+    .get();
+  return snap.docs.filter(doc => !doc.data().deletedAt).map(doc => {
+    const data = doc.data();
+    return {
+      ...toChatSession(doc.id, data),
+      firstMessageTextForTitle: data.firstMessageTextForTitle,
+      searchIndexed: data.searchIndexed === true,
+    };
+  });
+};
+
+export const queryPostings = async (userId: string, token: string, prefix: boolean, maxPostings: number): Promise<Posting[]> => {
+  const base = postingsCollection(userId);
+  const query = prefix
+    ? base.where('token', '>=', token).where('token', '<', token + '\uf8ff')
+    : base.where('token', '==', token);
+  const snap = await query.limit(maxPostings).get();
+  return snap.docs.map(doc => doc.data() as Posting);
+};
+
+// One-off backfill for one of the user's sessions created before the index existed.
+export const indexSessionMessages = async (userId: string, sessionId: string): Promise<void> => {
+  const [messages, existing] = await Promise.all([
+    getSessionMessages(sessionId),
+    postingsCollection(userId).where('sessionId', '==', sessionId).select().get(),
+  ]);
+  await commitInChunks([
+    ...existing.docs.map(doc => (batch: WriteBatch) => batch.delete(doc.ref)),
+    ...messages.flatMap(m => postingWrites(userId, sessionId, m.id, m.text || '')),
+  ]);
+  await requireDb().collection(CHAT_SESSIONS_COLLECTION).doc(sessionId).update({ searchIndexed: true });
+};
+
+export const getMessageTexts = async (sessionId: string, messageIds: string[]): Promise<Map<string, string>> => {
+  const texts = new Map<string, string>();
+  if (!messageIds.length) return texts;
+  const snaps = await requireDb().getAll(...messageIds.map(id => messageRef(sessionId, id)));
+  snaps.forEach(snap => {
+    if (snap.exists) texts.set(snap.id, snap.data()?.text || '');
+  });
+  return texts;
+};
+
+// Summary embeddings for "related" search.
+export const getSessionSummaryEmbeddings = async (userId: string): Promise<{ sessionId: string; summaryText: string; embeddingVector: number[] }[]> => {
+  const snap = await requireDb().collection(USER_MEMORIES_COLLECTION).doc(userId).collection(SESSION_SUMMARIES_SUBCOLLECTION)
+    .select('summaryText', 'embeddingVector')
+    .get();
+  return snap.docs
+    .map(doc => ({ sessionId: doc.id, summaryText: doc.get('summaryText'), embeddingVector: doc.get('embeddingVector') }))
+    .filter(s => Array.isArray(s.embeddingVector));
+};
+
+export const getSessionMessages = async (sessionId: string): Promise<AppMessage[]> => {
+  const snap = await messagesCollection(sessionId).orderBy('timestamp', 'asc').get();
+  return snap.docs.map(doc => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      text: data.text,
+      sender: data.sender,
+      timestamp: data.timestamp?.toDate ? data.timestamp.toDate() : new Date(),
+      feedback: data.feedback ?? null,
+      ...(data.truncated ? { truncated: true } : {}),
+      ...(data.parentId !== undefined ? { parentId: data.parentId } : {}),
+      ...(Array.isArray(data.variants) ? {
+        variants: data.variants.map((v: any): MessageVariant => ({ ...v, createdAt: toDate(v.createdAt) })),
+        activeVariantIndex: data.activeVariantIndex,
+      } : {}),
+    };
+  });
+};
+
+export const newMessageRef = (sessionId: string): DocumentReference => messagesCollection(sessionId).doc();
+
+export const messageRef = (sessionId: string, messageId: string): DocumentReference =>
+  messagesCollection(sessionId).doc(messageId);
+
+export const saveMessage = async (
+  userId: string,
+  ref: DocumentReference,
+  messageData: { text: string; sender: SenderType; parentId: string | null; truncated?: boolean }
+): Promise<void> => {
+  const { truncated, ...rest } = messageData;
+  await ref.set({
+    ...rest,
+    ...(truncated ? { truncated: true } : {}),
+    timestamp: FieldValue.serverTimestamp(),
+    feedback: null,
+  });
+  await indexMessage(userId, ref.parent.parent!.id, ref.id, messageData.text);
+};
+
+// Appends a regenerated reply as the message's new active variant. Replies from
+// before variants existed become the first variant.
+export const saveMessageVariant = async (
+  userId: string,
+  sessionId: string,
+  messageId: string,
+  variant: { text: string; truncated?: boolean }
+): Promise<void> => {
+  const ref = messageRef(sessionId, messageId);
+  await requireDb().runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new Error(`Message ${messageId} not found.`);
+    const data = snap.data() as DocumentData;
+    const variants = Array.isArray(data.variants) ? [...data.variants] : [{
+      text: data.text,
+      feedback: data.feedback ?? null,
+      ...(data.truncated ? { truncated: true } : {}),
+      createdAt: data.timestamp,
+    }];
+    variants.push({
+      text: variant.text,
+      feedback: null,
+      ...(variant.truncated ? { truncated: true } : {}),
+      createdAt: new Date(),
+    });
+    tx.update(ref, {
+      variants,
+      activeVariantIndex: variants.length - 1,
+      text: variant.text,
+      feedback: null,
+      truncated: variant.truncated ? true : FieldValue.delete(),
+    });
+  });
+  await reindexMessage(userId, sessionId, messageId, variant.text);
+};
+
+export const setActiveLeaf = async (sessionId: string, leafId: string): Promise<void> => {
+  await requireDb().collection(CHAT_SESSIONS_COLLECTION).doc(sessionId).update({ activeLeafId: leafId });
+};
+
+const importHash = (...parts: string[]) => createHash('sha256').update(parts.join(':')).digest('hex');
+
+// Writes a parsed archive conversation as a new session, keeping its original
+// timestamps and branch structure. Ids are derived from the source ids, so
+// importing the same file twice skips conversations that are already here and
+// a retry after a partial write overwrites rather than duplicates. The session
+// document is written last: until it exists the import counts as not done.
+// Messages are indexed for search lazily, on the user's next search.
+export const importConversation = async (
+  userId: string,
+  source: ImportSource,
+  conversation: ImportedConversation
+): Promise<{ status: 'imported'; sessionId: string; messages: AppMessage[]; activeLeafId?: string } | { status: 'skipped'; sessionId: string }> => {
+  const db = requireDb();
+  const sessionId = `imp_${importHash(userId, source, conversation.sourceId).slice(0, 24)}`;
+  const sessionRef = db.collection(CHAT_SESSIONS_COLLECTION).doc(sessionId);
+  // A SuruGPT export re-imported into the account it came from still has its original session.
+  const candidates = [sessionRef];
+  if (source === 'surugpt' && !conversation.sourceId.includes('/')) {
+    candidates.push(db.collection(CHAT_SESSIONS_COLLECTION).doc(conversation.sourceId));
+  }
+  const existing = await db.getAll(...candidates);
+  if (existing.some(snap => snap.exists && snap.data()?.userId === userId)) return { status: 'skipped', sessionId };
+
+  const idFor = new Map(conversation.messages.map(m => [m.sourceId, importHash(sessionId, m.sourceId).slice(0, 20)]));
+  const messages: AppMessage[] = conversation.messages.map(m => ({
+    id: idFor.get(m.sourceId)!,
+    parentId: m.parentSourceId ? idFor.get(m.parentSourceId) ?? null : null,
+    sender: m.sender,
+    text: m.text,
+    timestamp: m.timestamp,
+    feedback: m.feedback,
+    ...(m.truncated ? { truncated: true } : {}),
+    ...(m.variants ? { variants: m.variants, activeVariantIndex: m.activeVariantIndex } : {}),
+  }));
+
+  await commitInChunks(messages.map(m => (batch: WriteBatch) =>
+    batch.set(messagesCollection(sessionId).doc(m.id), {
+      text: m.text,
+      sender: m.sender,
+      parentId: m.parentId,
+      timestamp: Timestamp.fromDate(m.timestamp as Date),
+      feedback: m.feedback ?? null,
+      ...(m.truncated ? { truncated: true } : {}),
+      ...(m.variants ? {
+        variants: m.variants.map(v => ({ ...v, createdAt: Timestamp.fromDate(v.createdAt as Date) })),
+        activeVariantIndex: m.activeVariantIndex,
+      } : {}),
+    })));
+
+  const firstUserMessage = messages.find(m => m.sender === SenderType.USER);
+  const activeLeafId = conversation.activeLeafSourceId ? idFor.get(conversation.activeLeafSourceId) : undefined;
+  await sessionRef.set({
+    title: conversation.title,
+    createdAt: Timestamp.fromDate(conversation.createdAt),
+    firstMessageTextForTitle: firstUserMessage?.text.slice(0, 500) ?? '',
+    userId,
+    searchIndexed: false,
+    importedFrom: source,
+    ...(activeLeafId ? { activeLeafId } : {}),
+  });
+  return { status: 'imported', sessionId, messages, activeLeafId };
+};
+
+const sharedMessagesCollection = (shareId: string) =>
+  requireDb().collection(SHARED_CHATS_COLLECTION).doc(shareId).collection(MESSAGES_SUBCOLLECTION);
+
+const deleteSharedMessages = async (shareId: string): Promise<void> => {
+  const snap = await sharedMessagesCollection(shareId).get();
+  await commitInChunks(snap.docs.map(doc => (batch: WriteBatch) => batch.delete(doc.ref)));
+};
+
+// Snapshots the branch the owner is viewing into shared_chats. Sharing an
+// already shared chat refreshes the snapshot under the same link.
+export const shareSession = async (userId: string, sessionId: string, sessionData: DocumentData): Promise<string> => {
+  const db = requireDb();
+  const shareId: string = sessionData.shareId || randomBytes(SHARE_ID_BYTES).toString('base64url');
+  const path = getActivePath(withParentIds(await getSessionMessages(sessionId)), sessionData.activeLeafId)
+    .filter(m => m.text.trim() !== '');
+
+  if (sessionData.shareId) await deleteSharedMessages(shareId);
+  await commitInChunks(path.map((m, order) => (batch: WriteBatch) =>
+    batch.set(sharedMessagesCollection(shareId).doc(m.id), {
+      sender: m.sender,
+      text: m.text,
+      timestamp: m.timestamp,
+      order,
+    })));
+  await db.collection(SHARED_CHATS_COLLECTION).doc(shareId).set({
+    ownerId: userId,
+    sessionId,
+    title: sessionData.title,
+    createdAt: sessionData.createdAt ?? FieldValue.serverTimestamp(),
+    sharedAt: FieldValue.serverTimestamp(),
+  });
+  await db.collection(CHAT_SESSIONS_COLLECTION).doc(sessionId).update({ shareId });
+  return shareId;
+};
+
+export const revokeSessionShare = async (sessionId: string, shareId: string): Promise<void> => {
+  await deleteSharedMessages(shareId);
+  await requireDb().collection(SHARED_CHATS_COLLECTION).doc(shareId).delete();
+  await requireDb().collection(CHAT_SESSIONS_COLLECTION).doc(sessionId).update({ shareId: FieldValue.delete() });
+};
+
+export const getSharedChat = async (shareId: string): Promise<SharedChat | null> => {
+  const shareDoc = await requireDb().collection(SHARED_CHATS_COLLECTION).doc(shareId).get();
+  if (!shareDoc.exists) return null;
+  const data = shareDoc.data() as DocumentData;
+  // A chat in Trash is not shared, but comes back with its link if restored.
+  const sessionDoc = await requireDb().collection(CHAT_SESSIONS_COLLECTION).doc(data.sessionId).get();
+  if (!sessionDoc.exists || sessionDoc.data()?.deletedAt) return null;
+  const snap = await sharedMessagesCollection(shareId).orderBy('order', 'asc').get();
+  return {
+    title: data.title,
+    createdAt: toDate(data.createdAt).toISOString(),
+    sharedAt: toDate(data.sharedAt).toISOString(),
+    messages: snap.docs.map(doc => {
+      const m = doc.data();
+      return { id: doc.id, sender: m.sender, text: m.text, timestamp: toDate(m.timestamp).toISOString() };
+    }),
+  };
+};
+
+// Bumped whenever what may be recalled changes, so /api/chat stops reusing
+// memories it cached before the change.
+export const MEMORY_CHANGED_AT_FIELD = 'memoryChangedAt';
+
+const memoriesChangedMarker = () => ({ [MEMORY_CHANGED_AT_FIELD]: FieldValue.serverTimestamp() });
+
+const memoriesChangedWrite = (userId: string) => (batch: WriteBatch) =>
+  batch.set(requireDb().collection(USER_MEMORIES_COLLECTION).doc(userId), memoriesChangedMarker(), { merge: true });
+
+export const markMemoriesChanged = async (userId: string): Promise<void> => {
+  await requireDb().collection(USER_MEMORIES_COLLECTION).doc(userId).set(memoriesChangedMarker(), { merge: true });
+};
+
+const sessionUpdates = (sessionIds: string[], changes: DocumentData) =>
+  commitInChunks(sessionIds.map(id => (batch: WriteBatch) =>
+    batch.update(requireDb().collection(CHAT_SESSIONS_COLLECTION).doc(id), changes)));
+
+// Moves chats to Trash. They stay restorable until purgeAt, when the trash
+// sweep (/api/purgeTrash) deletes them for good.
+export const trashSessions = async (userId: string, sessionIds: string[]): Promise<Date> => {
+  const purgeAt = new Date(Date.now() + TRASH_RETENTION_DAYS * DAY_MS);
+  await sessionUpdates(sessionIds, { deletedAt: FieldValue.serverTimestamp(), purgeAt: Timestamp.fromDate(purgeAt) });
+  await markMemoriesChanged(userId);
+  return purgeAt;
+};
+
+export const restoreSessions = async (userId: string, sessionIds: string[]): Promise<void> => {
+  await sessionUpdates(sessionIds, { deletedAt: FieldValue.delete(), purgeAt: FieldValue.delete() });
+  await markMemoriesChanged(userId);
+};
+
+export const moveSessionsToFolder = async (sessionIds: string[], folderId: string | null): Promise<void> => {
+  await sessionUpdates(sessionIds, { folderId });
+};
+
+// Permanently deletes a chat: its messages, memory summary, search postings
+// and share link, then the session itself. Memory facts learned only from
+// this chat are deleted; facts also learned elsewhere just lose the link.
+export const purgeSession = async (sessionId: string, sessionData: DocumentData): Promise<void> => {
+  const db = requireDb();
+  const userId: string = sessionData.userId;
+  if (sessionData.shareId) await revokeSessionShare(sessionId, sessionData.shareId);
+  const [messagesSnap, postingsSnap, factsSnap] = await Promise.all([
+    messagesCollection(sessionId).select().get(),
+    postingsCollection(userId).where('sessionId', '==', sessionId).select().get(),
+    db.collection(USER_MEMORIES_COLLECTION).doc(userId).collection(FACTS_SUBCOLLECTION)
+      .where('sourceSessionIds', 'array-contains', sessionId).select('sourceSessionIds').get(),
+  ]);
+  await commitInChunks([
+    ...messagesSnap.docs.map(doc => (batch: WriteBatch) => batch.delete(doc.ref)),
+    ...postingsSnap.docs.map(doc => (batch: WriteBatch) => batch.delete(doc.ref)),
+    ...factsSnap.docs.map(doc => (batch: WriteBatch) => {
+      const sources: string[] = doc.get('sourceSessionIds') || [];
+      if (sources.every(id => id === sessionId)) batch.delete(doc.ref);
+      else batch.update(doc.ref, { sourceSessionIds: FieldValue.arrayRemove(sessionId) });
+    }),
+    batch => batch.delete(db.collection(USER_MEMORIES_COLLECTION).doc(userId).collection(SESSION_SUMMARIES_SUBCOLLECTION).doc(sessionId)),
+    memoriesChangedWrite(userId),
+  ]);
+  await db.collection(CHAT_SESSIONS_COLLECTION).doc(sessionId).delete();
+};
+
+export const listTrashedSessions = async (userId: string): Promise<{ id: string; data: DocumentData }[]> => {
+  const snap = await requireDb().collection(CHAT_SESSIONS_COLLECTION)
+    .where('userId', '==', userId)
+    .where('deletedAt', '!=', null)
+    .get();
+  return snap.docs.map(doc => ({ id: doc.id, data: doc.data() }));
+};
+
+// Chats the user opted out of long-term memory.
+export const listMemoryDisabledSessionIds = async (userId: string): Promise<string[]> => {
+  const snap = await requireDb().collection(CHAT_SESSIONS_COLLECTION)
+    .where('userId', '==', userId)
+    .where('memoryDisabled', '==', true)
+    .select()
+    .get();
+  return snap.docs.map(doc => doc.id);
+};
+
+// Trashed chats of every user whose retention period has run out, oldest first.
+export const listSessionsDueForPurge = async (now: Date, max: number): Promise<{ id: string; data: DocumentData }[]> => {
+  const snap = await requireDb().collection(CHAT_SESSIONS_COLLECTION)
+    .where('purgeAt', '<=', Timestamp.fromDate(now))
+    .orderBy('purgeAt', 'asc')
+    .limit(max)
+    .get();
+  return snap.docs.map(doc => ({ id: doc.id, data: doc.data() }));
+};
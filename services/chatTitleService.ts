@@ -1,11 +1,11 @@
+import { apiFetch } from './apiClient';
 
 export const summarizeTextForTitle = async (text: string, userId: string | null): Promise<string | null> => {
   if (!userId) return null;
   try {
-    const response = await fetch(`${window.location.origin}/api/summarize`, {
+    const response = await apiFetch('/api/summarize', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ textToSummarize: text, userId: userId }),
+      body: JSON.stringify({ textToSummarize: text }),
     });
     if (!response.ok) return null;
     const data = await response.json();
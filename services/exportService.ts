@@ -0,0 +1,28 @@
+import { ExportFormat } from '../types';
+import { apiFetch } from './apiClient';
+
+// Downloads the given chats (or all of them) as a single file in the browser.
+export const downloadChatExport = async (format: ExportFormat, sessionIds?: string[]): Promise<void> => {
+  const params = new URLSearchParams({ format });
+  if (sessionIds?.length === 1) params.set('sessionId', sessionIds[0]);
+  // A selection of chats goes in the body, which has no URL length limit.
+  const response = sessionIds && sessionIds.length > 1
+    ? await apiFetch('/api/export', { method: 'POST', body: JSON.stringify({ format, sessionIds }) })
+    : await apiFetch(`/api/export?${params.toString()}`, { method: 'GET' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Export failed with status ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = decodeURIComponent(/filename="([^"]+)"/.exec(disposition)?.[1] || `surugpt-export.${format === 'markdown' ? 'md' : format}`);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
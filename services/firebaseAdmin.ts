@@ -1,5 +1,6 @@
 import { initializeApp, getApps, cert, App as AdminApp } from 'firebase-admin/app';
 import { getFirestore as getAdminFirestore } from 'firebase-admin/firestore';
+import { getAuth as getAdminAuth } from 'firebase-admin/auth';
 
 let adminApp: AdminApp;
 const serviceAccountString = process.env.FIREBASE_ADMIN_SDK_CONFIG;
@@ -18,4 +19,5 @@ if (serviceAccountString) {
 }
 
 export const dbAdmin = adminApp! ? getAdminFirestore(adminApp) : null;
+export const authAdmin = adminApp! ? getAdminAuth(adminApp) : null;
 export { AdminApp };
\ No newline at end of file
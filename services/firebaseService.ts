@@ -13,20 +13,31 @@ import {
   updateDoc,
   writeBatch,
   where,
-  setDoc
+  setDoc,
+  WriteBatch,
+  QueryDocumentSnapshot,
+  runTransaction,
+  onSnapshot,
+  Unsubscribe,
+  arrayRemove
 } from 'firebase/firestore';
 
 import { firebaseConfig } from './firebaseConfig.js';
-import { ChatSession, Message, SenderType } from '../types';
-import type { StoredSessionSummary } from '../types';
+import { ChatSession, ChatFolder, ChatSessionOrganization, ChatSettings, Message, Persona, SenderType } from '../types';
+import type { StoredSessionSummary, MessageVariant } from '../types';
+import { PERSONAS_COLLECTION } from '../utils/personas.js';
 
 const app = initializeApp(firebaseConfig);
 const db = getFirestore(app);
 
 const CHAT_SESSIONS_COLLECTION = 'chat_sessions';
+const CHAT_FOLDERS_COLLECTION = 'chat_folders';
 const MESSAGES_SUBCOLLECTION = 'messages';
 const USER_MEMORIES_COLLECTION = 'user_memories';
 const SESSION_SUMMARIES_SUBCOLLECTION = 'session_summaries';
+const FACTS_SUBCOLLECTION = 'facts';
+// Stay under Firestore's 500 writes per batch.
+const BATCH_WRITE_LIMIT = 450;
 
 const convertMessageTimestamp = (messageData: any): Message => {
   const timestampField = messageData.timestamp;
@@ -37,44 +48,64 @@ const convertMessageTimestamp = (messageData: any): Message => {
   } as Message;
 };
 
-export const getChatSessions = async (userId: string): Promise<ChatSession[]> => {
-  if (!userId) return [];
-  try {
-    const sessionsQuery = query(
-      collection(db, CHAT_SESSIONS_COLLECTION),
-      where('userId', '==', userId),
-      orderBy('createdAt', 'desc')
-    );
-    const querySnapshot = await getDocs(sessionsQuery);
-    return querySnapshot.docs.map(docSnapshot => {
-      // FIX: Cast docSnapshot.data() to any to allow access to properties like title, createdAt, and userId
-      const data = docSnapshot.data() as any;
-      return {
-        id: docSnapshot.id,
-        title: data.title,
-        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(data.createdAt),
-        firstMessageTextForTitle: data.firstMessageTextForTitle,
-        userId: data.userId,
-      } as ChatSession;
-    });
-  } catch (error) {
-    console.error("Error fetching chat sessions:", error);
-    return [];
-  }
+// Server timestamps still pending on this device are read as local estimates.
+const chatSessionFromDoc = (docSnapshot: QueryDocumentSnapshot): ChatSession => {
+  const data = docSnapshot.data({ serverTimestamps: 'estimate' }) as any;
+  return {
+    id: docSnapshot.id,
+    title: data.title,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(data.createdAt),
+    firstMessageTextForTitle: data.firstMessageTextForTitle,
+    userId: data.userId,
+    memoryDisabled: data.memoryDisabled === true,
+    searchIndexed: data.searchIndexed === true,
+    activeLeafId: data.activeLeafId,
+    shareId: data.shareId,
+    pinned: data.pinned === true,
+    folderId: data.folderId ?? null,
+    tags: Array.isArray(data.tags) ? data.tags : [],
+    deletedAt: data.deletedAt instanceof Timestamp ? data.deletedAt.toDate() : null,
+    purgeAt: data.purgeAt instanceof Timestamp ? data.purgeAt.toDate() : null,
+    personaId: data.personaId ?? null,
+    model: data.model,
+    temperature: data.temperature,
+  } as ChatSession;
 };
 
+const messageFromDoc = (docSnapshot: QueryDocumentSnapshot): Message =>
+  convertMessageTimestamp({ id: docSnapshot.id, ...(docSnapshot.data({ serverTimestamps: 'estimate' }) as any) });
+
+const chatSessionsQuery = (userId: string) => query(
+  collection(db, CHAT_SESSIONS_COLLECTION),
+  where('userId', '==', userId),
+  orderBy('createdAt', 'desc')
+);
+
+const sessionMessagesQuery = (sessionId: string) => query(
+  collection(db, CHAT_SESSIONS_COLLECTION, sessionId, MESSAGES_SUBCOLLECTION),
+  orderBy('timestamp', 'asc')
+);
+
+// The user's chat sessions, newest first: `onChange` gets the full list on every
+// change, including ones made in other tabs or on other devices.
+export const subscribeToChatSessions = (
+  userId: string,
+  onChange: (sessions: ChatSession[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => onSnapshot(
+  chatSessionsQuery(userId),
+  snapshot => onChange(snapshot.docs.map(chatSessionFromDoc)),
+  error => {
+    console.error("Chat sessions listener error:", error);
+    onError?.(error);
+  }
+);
+
 export const getMessagesForSession = async (userId: string, sessionId: string): Promise<Message[]> => {
   if (!userId || !sessionId) return [];
   try {
-    const messagesQuery = query(
-      collection(db, CHAT_SESSIONS_COLLECTION, sessionId, MESSAGES_SUBCOLLECTION),
-      orderBy('timestamp', 'asc')
-    );
-    const querySnapshot = await getDocs(messagesQuery);
-    return querySnapshot.docs.map(docSnapshot =>
-      // FIX: Cast docSnapshot.data() to any to allow spreading the data into the message object
-      convertMessageTimestamp({ id: docSnapshot.id, ...(docSnapshot.data() as any) })
-    );
+    const querySnapshot = await getDocs(sessionMessagesQuery(sessionId));
+    return querySnapshot.docs.map(messageFromDoc);
   } catch (error) {
     // Return empty instead of throwing to prevent background cleanup from blocking UI
     console.warn(`[firebaseService] Could not fetch messages for session ${sessionId}. Legacy data or permission issue?`, error);
@@ -82,10 +113,25 @@ export const getMessagesForSession = async (userId: string, sessionId: string):
   }
 };
 
+// Live version of getMessagesForSession: every stored message of the session, oldest first.
+export const subscribeToSessionMessages = (
+  sessionId: string,
+  onChange: (messages: Message[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => onSnapshot(
+  sessionMessagesQuery(sessionId),
+  snapshot => onChange(snapshot.docs.map(messageFromDoc)),
+  error => {
+    console.warn(`[firebaseService] Messages listener for session ${sessionId} failed.`, error);
+    onError?.(error);
+  }
+);
+
 export const createChatSessionInFirestore = async (
   userId: string,
   title: string,
-  firstMessageText: string
+  firstMessageText: string,
+  settings: ChatSettings = {}
 ): Promise<ChatSession> => {
   if (!userId) throw new Error("userId is required");
   const newSessionRef = await addDoc(collection(db, CHAT_SESSIONS_COLLECTION), {
@@ -93,6 +139,11 @@ export const createChatSessionInFirestore = async (
     createdAt: serverTimestamp(),
     firstMessageTextForTitle: firstMessageText,
     userId: userId,
+    searchIndexed: true,
+    personaId: settings.personaId ?? null,
+    // Unset fields keep following the server defaults.
+    ...(settings.model ? { model: settings.model } : {}),
+    ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
   });
 
   const docSnap = await getDoc(newSessionRef);
@@ -105,21 +156,35 @@ export const createChatSessionInFirestore = async (
       createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
       firstMessageTextForTitle: data.firstMessageTextForTitle,
       userId: data.userId,
+      searchIndexed: true,
+      personaId: data.personaId ?? null,
+      model: data.model,
+      temperature: data.temperature,
     } as ChatSession;
   }
   throw new Error("Failed to create chat session");
 };
 
+const commitInChunks = async (writes: Array<(batch: WriteBatch) => void>): Promise<void> => {
+  for (let i = 0; i < writes.length; i += BATCH_WRITE_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_WRITE_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
 export const addMessageToFirestore = async (
   userId: string, 
   sessionId: string,
-  messageData: { text: string; sender: SenderType }
+  messageData: { text: string; sender: SenderType; truncated?: boolean }
 ): Promise<Message> => {
   if (!userId || !sessionId) throw new Error("Missing ID for addMessage");
+  const { truncated, ...rest } = messageData;
   const messageRef = await addDoc(
     collection(db, CHAT_SESSIONS_COLLECTION, sessionId, MESSAGES_SUBCOLLECTION),
     {
-      ...messageData,
+      ...rest,
+      ...(truncated ? { truncated: true } : {}),
       timestamp: serverTimestamp(),
       feedback: null,
     }
@@ -152,7 +217,39 @@ export const updateMessageFeedbackInFirestore = async (
   feedback: 'good' | 'bad' | null
 ): Promise<void> => {
   const messageRef = doc(db, CHAT_SESSIONS_COLLECTION, sessionId, MESSAGES_SUBCOLLECTION, messageId);
-  await updateDoc(messageRef, { feedback });
+  // Feedback belongs to the variant being shown, not to the message as a whole.
+  await runTransaction(db, async tx => {
+    const snap = await tx.get(messageRef);
+    const data = snap.data() as any;
+    if (!Array.isArray(data?.variants)) {
+      tx.update(messageRef, { feedback });
+      return;
+    }
+    const variants: MessageVariant[] = [...data.variants];
+    const index = data.activeVariantIndex ?? variants.length - 1;
+    variants[index] = { ...variants[index], feedback };
+    tx.update(messageRef, { feedback, variants });
+  });
+};
+
+export const selectMessageVariantInFirestore = async (
+  sessionId: string,
+  messageId: string,
+  variantIndex: number
+): Promise<void> => {
+  const messageRef = doc(db, CHAT_SESSIONS_COLLECTION, sessionId, MESSAGES_SUBCOLLECTION, messageId);
+  await runTransaction(db, async tx => {
+    const snap = await tx.get(messageRef);
+    const variants: MessageVariant[] | undefined = (snap.data() as any)?.variants;
+    const variant = variants?.[variantIndex];
+    if (!variant) throw new Error(`Variant ${variantIndex} not found for message ${messageId}`);
+    tx.update(messageRef, {
+      activeVariantIndex: variantIndex,
+      text: variant.text,
+      feedback: variant.feedback ?? null,
+      truncated: variant.truncated === true,
+    });
+  });
 };
 
 export const updateChatSessionTitleInFirestore = async (userId: string, sessionId: string, newTitle: string): Promise<void> => {
@@ -160,25 +257,23 @@ export const updateChatSessionTitleInFirestore = async (userId: string, sessionI
   await updateDoc(sessionRef, { title: newTitle });
 };
 
-export const deleteChatSessionFromFirestore = async (userId: string, sessionId: string): Promise<void> => {
-  const batch = writeBatch(db);
-  const sessionDocRef = doc(db, CHAT_SESSIONS_COLLECTION, sessionId);
-  const sessionDocSnap = await getDoc(sessionDocRef);
-  
-  // FIX: Cast sessionDocSnap.data() to any to verify ownership via the userId property
-  if (!sessionDocSnap.exists() || (sessionDocSnap.data() as any)?.userId !== userId) {
-      throw new Error("Permission denied or session not found");
-  }
-
-  const summaryDocRef = doc(db, USER_MEMORIES_COLLECTION, userId, SESSION_SUMMARIES_SUBCOLLECTION, sessionId);
-  batch.delete(summaryDocRef);
+// Pinning, filing into a folder and tagging; only the given fields change.
+export const updateChatSessionOrganizationInFirestore = async (sessionId: string, changes: ChatSessionOrganization): Promise<void> => {
+  const sessionRef = doc(db, CHAT_SESSIONS_COLLECTION, sessionId);
+  await updateDoc(sessionRef, changes);
+};
 
-  const messagesPath = collection(db, CHAT_SESSIONS_COLLECTION, sessionId, MESSAGES_SUBCOLLECTION);
-  const messagesSnapshot = await getDocs(query(messagesPath));
-  messagesSnapshot.forEach(messageDoc => batch.delete(messageDoc.ref));
+// Model and temperature can change mid-chat; the persona is fixed when the chat starts.
+export const updateChatSessionSettingsInFirestore = async (
+  sessionId: string,
+  changes: Pick<ChatSettings, 'model' | 'temperature'>
+): Promise<void> => {
+  await updateDoc(doc(db, CHAT_SESSIONS_COLLECTION, sessionId), changes);
+};
 
-  batch.delete(sessionDocRef);
-  await batch.commit();
+export const setActiveLeafInFirestore = async (sessionId: string, leafId: string): Promise<void> => {
+  const sessionRef = doc(db, CHAT_SESSIONS_COLLECTION, sessionId);
+  await updateDoc(sessionRef, { activeLeafId: leafId });
 };
 
 export const addSessionSummaryWithEmbeddingAndHash = async (
@@ -218,3 +313,163 @@ export const getMostRecentSummaryForSession = async (userId: string, sessionId:
   } catch (e) { console.error("Summary fetch error:", e); }
   return null;
 };
+
+const toStoredSessionSummary = (id: string, data: any): StoredSessionSummary => ({
+  id,
+  sessionId: data.sessionId || id,
+  summaryText: data.summaryText,
+  embeddingVector: data.embeddingVector,
+  createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(data.createdAt),
+  chatDate: data.chatDate instanceof Timestamp ? data.chatDate.toDate() : undefined,
+  contentHash: data.contentHash,
+  userEdited: data.userEdited === true,
+});
+
+export const getSessionSummaries = async (userId: string): Promise<StoredSessionSummary[]> => {
+  if (!userId) return [];
+  try {
+    const summariesQuery = query(
+      collection(db, USER_MEMORIES_COLLECTION, userId, SESSION_SUMMARIES_SUBCOLLECTION),
+      orderBy('createdAt', 'desc')
+    );
+    const querySnapshot = await getDocs(summariesQuery);
+    return querySnapshot.docs.map(docSnapshot => toStoredSessionSummary(docSnapshot.id, docSnapshot.data()));
+  } catch (error) {
+    console.error("Error fetching session summaries:", error);
+    return [];
+  }
+};
+
+// Everything remembered from a chat: its summary, facts learned only from it,
+// and its link on facts that were also learned elsewhere.
+const forgetSessionWrites = async (userId: string, sessionId: string): Promise<Array<(batch: WriteBatch) => void>> => {
+  const factsSnapshot = await getDocs(query(
+    collection(db, USER_MEMORIES_COLLECTION, userId, FACTS_SUBCOLLECTION),
+    where('sourceSessionIds', 'array-contains', sessionId)
+  ));
+  return [
+    batch => batch.delete(doc(db, USER_MEMORIES_COLLECTION, userId, SESSION_SUMMARIES_SUBCOLLECTION, sessionId)),
+    // Tells /api/chat its cached memories are stale (see MEMORY_CHANGED_AT_FIELD in chatStoreAdmin).
+    batch => batch.set(doc(db, USER_MEMORIES_COLLECTION, userId), { memoryChangedAt: serverTimestamp() }, { merge: true }),
+    ...factsSnapshot.docs.map(factDoc => (batch: WriteBatch) => {
+      const sources: string[] = factDoc.data().sourceSessionIds || [];
+      if (sources.every(id => id === sessionId)) batch.delete(factDoc.ref);
+      else batch.update(factDoc.ref, { sourceSessionIds: arrayRemove(sessionId) });
+    }),
+  ];
+};
+
+export const forgetSessionMemoryInFirestore = async (userId: string, sessionId: string): Promise<void> => {
+  await commitInChunks(await forgetSessionWrites(userId, sessionId));
+};
+
+// Opting a chat out also forgets what was already remembered from it.
+export const setSessionMemoryEnabledInFirestore = async (userId: string, sessionId: string, enabled: boolean): Promise<void> => {
+  const writes: Array<(batch: WriteBatch) => void> = [
+    batch => batch.update(doc(db, CHAT_SESSIONS_COLLECTION, sessionId), { memoryDisabled: !enabled }),
+  ];
+  if (!enabled) writes.push(...await forgetSessionWrites(userId, sessionId));
+  await commitInChunks(writes);
+};
+
+export const getChatFolders = async (userId: string): Promise<ChatFolder[]> => {
+  if (!userId) return [];
+  try {
+    const foldersQuery = query(
+      collection(db, CHAT_FOLDERS_COLLECTION),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'asc')
+    );
+    const querySnapshot = await getDocs(foldersQuery);
+    return querySnapshot.docs.map(docSnapshot => {
+      const data = docSnapshot.data() as any;
+      return {
+        id: docSnapshot.id,
+        name: data.name,
+        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+        userId: data.userId,
+      };
+    });
+  } catch (error) {
+    console.error("Error fetching chat folders:", error);
+    return [];
+  }
+};
+
+export const createChatFolderInFirestore = async (userId: string, name: string): Promise<ChatFolder> => {
+  if (!userId) throw new Error("userId is required");
+  const folderRef = await addDoc(collection(db, CHAT_FOLDERS_COLLECTION), {
+    name,
+    userId,
+    createdAt: serverTimestamp(),
+  });
+  return { id: folderRef.id, name, userId, createdAt: new Date() };
+};
+
+export const renameChatFolderInFirestore = async (folderId: string, name: string): Promise<void> => {
+  await updateDoc(doc(db, CHAT_FOLDERS_COLLECTION, folderId), { name });
+};
+
+// Deleting a folder keeps its chats; they go back to the date groups.
+export const deleteChatFolderFromFirestore = async (userId: string, folderId: string): Promise<void> => {
+  const sessionsSnapshot = await getDocs(query(
+    collection(db, CHAT_SESSIONS_COLLECTION),
+    where('userId', '==', userId),
+    where('folderId', '==', folderId)
+  ));
+  const writes = sessionsSnapshot.docs.map(sessionDoc => (batch: WriteBatch) => batch.update(sessionDoc.ref, { folderId: null }));
+  writes.push(batch => batch.delete(doc(db, CHAT_FOLDERS_COLLECTION, folderId)));
+  await commitInChunks(writes);
+};
+
+export const getPersonas = async (userId: string): Promise<Persona[]> => {
+  if (!userId) return [];
+  try {
+    const personasQuery = query(
+      collection(db, PERSONAS_COLLECTION),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'asc')
+    );
+    const querySnapshot = await getDocs(personasQuery);
+    return querySnapshot.docs.map(docSnapshot => {
+      const data = docSnapshot.data() as any;
+      return {
+        id: docSnapshot.id,
+        name: data.name,
+        prompt: data.prompt,
+        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+        userId: data.userId,
+      };
+    });
+  } catch (error) {
+    console.error("Error fetching personas:", error);
+    return [];
+  }
+};
+
+export const createPersonaInFirestore = async (userId: string, name: string, prompt: string): Promise<Persona> => {
+  if (!userId) throw new Error("userId is required");
+  const personaRef = await addDoc(collection(db, PERSONAS_COLLECTION), {
+    name,
+    prompt,
+    userId,
+    createdAt: serverTimestamp(),
+  });
+  return { id: personaRef.id, name, prompt, userId, createdAt: new Date() };
+};
+
+export const updatePersonaInFirestore = async (personaId: string, changes: Partial<Pick<Persona, 'name' | 'prompt'>>): Promise<void> => {
+  await updateDoc(doc(db, PERSONAS_COLLECTION, personaId), changes);
+};
+
+// Chats started with a deleted persona go back to the built-in one.
+export const deletePersonaFromFirestore = async (userId: string, personaId: string): Promise<void> => {
+  const sessionsSnapshot = await getDocs(query(
+    collection(db, CHAT_SESSIONS_COLLECTION),
+    where('userId', '==', userId),
+    where('personaId', '==', personaId)
+  ));
+  const writes = sessionsSnapshot.docs.map(sessionDoc => (batch: WriteBatch) => batch.update(sessionDoc.ref, { personaId: null }));
+  writes.push(batch => batch.delete(doc(db, PERSONAS_COLLECTION, personaId)));
+  await commitInChunks(writes);
+};
@@ -0,0 +1,95 @@
+import { ChatImportResult } from '../types';
+import { apiFetch } from './apiClient';
+
+// Requests stay under the serverless body limit; with summarization on, each
+// conversation gets its own request so one slow summary cannot time out others.
+const MAX_CHUNK_BYTES = 3 * 1024 * 1024;
+const MAX_CONVERSATIONS_PER_CHUNK = 50;
+
+const encoder = new TextEncoder();
+// Request bodies are sent as UTF-8, so size is counted in bytes, not string length.
+const byteSize = (value: unknown) => encoder.encode(JSON.stringify(value)).length;
+
+// Splits an archive into request bodies of whole conversations. A SuruGPT
+// export keeps its header so the server can still recognize it. A conversation
+// too large to send on its own is returned separately instead of being sent.
+const splitArchive = (data: any, perChunk: number): { chunks: unknown[]; tooLarge: any[] } => {
+  const isSuruExport = !Array.isArray(data) && Array.isArray(data?.sessions);
+  const conversations: unknown[] = Array.isArray(data) ? data : isSuruExport ? data.sessions : [];
+  if (conversations.length === 0) return { chunks: [data], tooLarge: [] };
+  const wrap = (items: unknown[]) => (isSuruExport ? { ...data, sessions: items } : items);
+  const headerBytes = byteSize(wrap([]));
+
+  const chunks: unknown[] = [];
+  const tooLarge: any[] = [];
+  let current: unknown[] = [];
+  let currentBytes = headerBytes;
+  for (const conversation of conversations) {
+    // +1 for the comma between conversations.
+    const bytes = byteSize(conversation) + 1;
+    if (headerBytes + bytes > MAX_CHUNK_BYTES) {
+      tooLarge.push(conversation);
+      continue;
+    }
+    if (current.length && (current.length >= perChunk || currentBytes + bytes > MAX_CHUNK_BYTES)) {
+      chunks.push(wrap(current));
+      current = [];
+      currentBytes = headerBytes;
+    }
+    current.push(conversation);
+    currentBytes += bytes;
+  }
+  if (current.length) chunks.push(wrap(current));
+  return { chunks, tooLarge };
+};
+
+// Imports a ChatGPT conversations.json or a SuruGPT JSON export, reporting
+// progress as the number of conversations sent so far.
+export const importChatArchive = async (
+  file: File,
+  options: { summarize: boolean; onProgress?: (done: number, total: number) => void }
+): Promise<ChatImportResult> => {
+  let data: any;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error("That file isn't valid JSON.");
+  }
+
+  const { chunks, tooLarge } = splitArchive(data, options.summarize ? 1 : MAX_CONVERSATIONS_PER_CHUNK);
+  const countOf = (chunk: any) => (Array.isArray(chunk) ? chunk.length : chunk?.sessions?.length ?? 1);
+  const total = chunks.reduce<number>((sum, chunk) => sum + countOf(chunk), 0) + tooLarge.length;
+  const result: ChatImportResult = {
+    imported: 0,
+    skipped: 0,
+    failed: tooLarge.map(conversation => ({
+      title: conversation?.title || 'Untitled conversation',
+      error: `Too large to import (over ${MAX_CHUNK_BYTES / (1024 * 1024)} MB).`,
+    })),
+    summarized: 0,
+  };
+  let done = tooLarge.length;
+  options.onProgress?.(done, total);
+
+  for (const chunk of chunks) {
+    const response = await apiFetch('/api/import', {
+      method: 'POST',
+      body: JSON.stringify({ data: chunk, summarize: options.summarize }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      // An unrecognized file fails on the first request; later failures keep what was already imported.
+      if (chunk === chunks[0]) throw new Error(errorData.error || `Import failed with status ${response.status}`);
+      result.failed.push({ title: `${countOf(chunk)} conversation(s)`, error: errorData.error || `Status ${response.status}` });
+    } else {
+      const chunkResult: ChatImportResult = await response.json();
+      result.imported += chunkResult.imported;
+      result.skipped += chunkResult.skipped;
+      result.summarized += chunkResult.summarized;
+      result.failed.push(...chunkResult.failed);
+    }
+    done += countOf(chunk);
+    options.onProgress?.(done, total);
+  }
+  return result;
+};
@@ -0,0 +1,85 @@
+import { createOpenAIProvider } from './openAIProvider.js';
+import { createMockLLMProvider } from './mockLLMProvider.js';
+
+// Every model call the API makes goes through an LLMProvider, picked once per
+// instance from LLM_PROVIDER:
+//   openai             (default) OpenAI itself, with OPENAI_API_KEY.
+//   openai-compatible  A self-hosted server speaking the OpenAI HTTP API (vLLM,
+//                      Ollama, LM Studio...) at LLM_BASE_URL, with an optional
+//                      LLM_API_KEY. LLM_MODEL and LLM_EMBEDDING_MODEL replace the
+//                      registry's model ids, which such servers usually lack.
+//   mock               Deterministic local replies and embeddings; no network or key.
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean; // Ask for a single JSON object as the reply
+}
+
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'usage'; promptTokens: number; completionTokens: number; totalTokens: number };
+
+export interface LLMProvider {
+  name: string;
+  // The whole reply at once, or null if the model returned nothing.
+  complete(request: LLMCompletionRequest): Promise<string | null>;
+  // Reply text as it is generated, then usage if the backend reports it. Ends
+  // quietly when `signal` aborts.
+  streamChat(request: LLMCompletionRequest, signal?: AbortSignal): AsyncIterable<LLMStreamChunk>;
+  // One vector per input, in order.
+  embed(model: string, input: string[]): Promise<number[][]>;
+}
+
+// A failed call, with the backend's HTTP status when there was one.
+export class LLMProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = status;
+  }
+}
+
+const createConfiguredProvider = (): LLMProvider | null => {
+  const kind = process.env.LLM_PROVIDER || 'openai';
+  switch (kind) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY ? createOpenAIProvider({ name: 'openai', apiKey: process.env.OPENAI_API_KEY }) : null;
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL) {
+        console.error("[llmProvider] LLM_PROVIDER=openai-compatible needs LLM_BASE_URL.");
+        return null;
+      }
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        // Most self-hosted servers ignore the key, but the client needs one.
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL: process.env.LLM_BASE_URL,
+        model: process.env.LLM_MODEL,
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL,
+      });
+    case 'mock':
+      return createMockLLMProvider({ reply: process.env.MOCK_LLM_REPLY });
+    default:
+      console.error(`[llmProvider] Unknown LLM_PROVIDER "${kind}". Use openai, openai-compatible or mock.`);
+      return null;
+  }
+};
+
+let provider: LLMProvider | null | undefined;
+
+// Null when the configured provider is missing its settings; routes report
+// that as a server configuration error.
+export const getLLMProvider = (): LLMProvider | null => {
+  if (provider === undefined) provider = createConfiguredProvider();
+  return provider;
+};
@@ -0,0 +1,323 @@
+import { createHash } from 'node:crypto';
+import { FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Message as AppMessage, SenderType, StoredFact } from '../types.js';
+import { cosineSimilarity } from '../utils/helpers.js';
+import { UTILITY_MODEL, EMBEDDING_MODEL } from './modelRegistry.js';
+import type { LLMProvider } from './llmProvider.js';
+
+// Single path from a finished chat session to its stored memories: a short
+// session summary plus the atomic facts extracted from it. Both
+// /api/processSessionForMemory and /api/handleTabCloseMemory go through
+// `ingestSessionMemory` with the chat's stored active path, so the same
+// transcript always yields the same memory.
+
+const SUMMARY_MODEL = UTILITY_MODEL;
+const SUMMARY_PROMPT = "Summarize this conversation in 1-2 sentences for future retrieval. Focus on who the user is, what they wanted and anything they would expect to be remembered.";
+const SUMMARY_MAX_TOKENS = 150;
+const MAX_TRANSCRIPT_CHARS = 10000;
+
+const FACT_EXTRACTION_PROMPT = `Extract durable, atomic facts about the user from this conversation: names, relationships, preferences, plans, dates and other details worth remembering weeks later. Each fact must stand alone (no pronouns without referents) and be one short sentence. Skip small talk, the assistant's opinions and anything only true for this conversation.
+Each transcript line starts with its message id in brackets. Respond with JSON: {"facts": [{"text": string, "confidence": number between 0 and 1, "sourceMessageIds": string[]}]}. Return {"facts": []} if there is nothing worth keeping.`;
+const FACT_RECONCILE_PROMPT = `You compare pairs of facts about the same user. For each numbered pair decide whether the new fact says the "same" thing as the existing one, "contradicts" it (the new fact makes the existing one no longer true), or is "unrelated" (both can be true).
+Respond with JSON: {"verdicts": [{"pair": number, "relation": "same" | "contradicts" | "unrelated"}]}.`;
+const FACT_MIN_CONFIDENCE = 0.5;
+// At or above this similarity a new fact is treated as a restatement without asking the model.
+const FACT_DUPLICATE_SIMILARITY = 0.92;
+// Between this and the duplicate threshold the model decides: same, contradiction or unrelated.
+const FACT_RELATED_SIMILARITY = 0.75;
+
+// The part of an LLMProvider the pipeline needs.
+export type MemoryLLMClient = Pick<LLMProvider, 'complete' | 'embed'>;
+
+export interface StoredSummaryState {
+  contentHash?: string;
+  userEdited?: boolean;
+}
+
+type NewFact = Omit<StoredFact, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface MemoryStore {
+  getSummary(userId: string, sessionId: string): Promise<StoredSummaryState | null>;
+  isSessionMemoryDisabled(sessionId: string): Promise<boolean>;
+  // `chatDate` is the time of the chat's last message, so re-summarizing an old chat keeps its date.
+  saveSummary(userId: string, sessionId: string, summary: { summaryText: string; embeddingVector: number[]; contentHash: string; chatDate?: Date }): Promise<void>;
+  // Records that this content was processed without touching a user-edited summary.
+  saveContentHash(userId: string, sessionId: string, contentHash: string): Promise<void>;
+  getFacts(userId: string): Promise<StoredFact[]>;
+  addFact(userId: string, fact: NewFact): Promise<string>;
+  updateFact(userId: string, factId: string, changes: Partial<NewFact>): Promise<void>;
+}
+
+export type IngestionStatus = 'empty' | 'unchanged' | 'disabled' | 'updated';
+
+export interface IngestionResult {
+  status: IngestionStatus;
+  summaryUpdated: boolean;
+  facts: { added: number; merged: number; replaced: number };
+}
+
+type TranscriptMessage = Pick<AppMessage, 'sender' | 'text'> & Partial<Pick<AppMessage, 'id' | 'timestamp'>>;
+
+export const generateContentHash = (messages: TranscriptMessage[]): string =>
+  createHash('sha256').update(messages.map(m => `${m.sender}:${m.text}`).join('||')).digest('hex');
+
+export const buildTranscript = (messages: TranscriptMessage[], withIds = false): string =>
+  messages
+    .map(m => `${withIds && m.id ? `[${m.id}] ` : ''}${m.sender === SenderType.USER ? 'User' : 'AI'}: ${m.text}`)
+    .join("\n\n")
+    .slice(0, MAX_TRANSCRIPT_CHARS);
+
+const parseJson = (content: string | null | undefined): any => {
+  try {
+    return JSON.parse(content || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const summarizeSession = async (llm: MemoryLLMClient, messages: TranscriptMessage[]) => {
+  const completion = await llm.complete({
+    model: SUMMARY_MODEL,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: buildTranscript(messages) }
+    ],
+    maxTokens: SUMMARY_MAX_TOKENS,
+  });
+  const summaryText = completion?.trim();
+  if (!summaryText) return null;
+  const [embeddingVector] = await llm.embed(EMBEDDING_MODEL, [summaryText]);
+  return { summaryText, embeddingVector };
+};
+
+const extractFacts = async (llm: MemoryLLMClient, messages: TranscriptMessage[]) => {
+  const knownIds = new Set(messages.map(m => m.id).filter(Boolean));
+  const completion = await llm.complete({
+    model: SUMMARY_MODEL,
+    messages: [
+      { role: 'system', content: FACT_EXTRACTION_PROMPT },
+      { role: 'user', content: buildTranscript(messages, true) }
+    ],
+    json: true,
+  });
+  const raw = parseJson(completion).facts;
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((f: any) => typeof f?.text === 'string' && f.text.trim())
+    .map((f: any) => ({
+      text: f.text.trim() as string,
+      confidence: Math.min(1, Math.max(0, Number(f.confidence) || 0)),
+      sourceMessageIds: (Array.isArray(f.sourceMessageIds) ? f.sourceMessageIds : [])
+        .filter((id: unknown) => typeof id === 'string' && knownIds.has(id)) as string[],
+    }))
+    .filter(f => f.confidence >= FACT_MIN_CONFIDENCE);
+};
+
+type FactRelation = 'same' | 'contradicts' | 'unrelated';
+
+const judgeFactPairs = async (
+  llm: MemoryLLMClient,
+  pairs: { existing: string; incoming: string }[]
+): Promise<Map<number, FactRelation>> => {
+  const verdicts = new Map<number, FactRelation>();
+  if (!pairs.length) return verdicts;
+  const completion = await llm.complete({
+    model: SUMMARY_MODEL,
+    messages: [
+      { role: 'system', content: FACT_RECONCILE_PROMPT },
+      { role: 'user', content: pairs.map((p, i) => `${i}. existing: ${p.existing}\n   new: ${p.incoming}`).join("\n") }
+    ],
+    json: true,
+  });
+  const raw = parseJson(completion).verdicts;
+  if (Array.isArray(raw)) {
+    raw.forEach((v: any) => {
+      if (['same', 'contradicts', 'unrelated'].includes(v?.relation)) verdicts.set(Number(v.pair), v.relation);
+    });
+  }
+  return verdicts;
+};
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+const nearestFact = (facts: StoredFact[], vector: number[]) => {
+  let best: { fact: StoredFact; score: number } | null = null;
+  for (const fact of facts) {
+    const score = cosineSimilarity(vector, fact.embeddingVector);
+    if (!best || score > best.score) best = { fact, score };
+  }
+  return best;
+};
+
+// Merges restatements into the existing fact, lets contradictions overwrite the
+// older fact, and stores everything else as new.
+const reconcileFacts = async (
+  userId: string,
+  sessionId: string,
+  extracted: { text: string; confidence: number; sourceMessageIds: string[] }[],
+  deps: { llm: MemoryLLMClient; store: MemoryStore }
+): Promise<IngestionResult['facts']> => {
+  const counts = { added: 0, merged: 0, replaced: 0 };
+  if (!extracted.length) return counts;
+  const { llm, store } = deps;
+
+  const vectors = await llm.embed(EMBEDDING_MODEL, extracted.map(f => f.text));
+  const incoming = extracted.map((f, i) => ({ ...f, embeddingVector: vectors[i] }));
+  const stored = await store.getFacts(userId);
+  const added: StoredFact[] = [];
+
+  const matches = incoming.map(f => nearestFact(stored, f.embeddingVector));
+  const ambiguous = incoming
+    .map((_, i) => i)
+    .filter(i => {
+      const match = matches[i];
+      return match !== null && match.score >= FACT_RELATED_SIMILARITY && match.score < FACT_DUPLICATE_SIMILARITY;
+    });
+  const verdicts = await judgeFactPairs(llm, ambiguous.map(i => ({ existing: matches[i]!.fact.text, incoming: incoming[i].text })));
+
+  for (let i = 0; i < incoming.length; i++) {
+    const fact = incoming[i];
+    const match = matches[i];
+    let relation: FactRelation = 'unrelated';
+    if (match && match.score >= FACT_DUPLICATE_SIMILARITY) relation = 'same';
+    else if (ambiguous.includes(i)) relation = verdicts.get(ambiguous.indexOf(i)) || 'unrelated';
+
+    let target = relation === 'unrelated' ? null : match!.fact;
+    if (!target) {
+      // Catch the same fact extracted twice from this one session.
+      const sibling = nearestFact(added, fact.embeddingVector);
+      if (sibling && sibling.score >= FACT_DUPLICATE_SIMILARITY) {
+        target = sibling.fact;
+        relation = 'same';
+      }
+    }
+
+    if (relation === 'same' && target) {
+      const changes = {
+        confidence: Math.max(target.confidence, fact.confidence),
+        sourceSessionIds: union(target.sourceSessionIds, [sessionId]),
+        sourceMessageIds: union(target.sourceMessageIds, fact.sourceMessageIds),
+      };
+      await store.updateFact(userId, target.id, changes);
+      Object.assign(target, changes);
+      counts.merged++;
+    } else if (relation === 'contradicts' && target) {
+      const changes = {
+        text: fact.text,
+        embeddingVector: fact.embeddingVector,
+        confidence: fact.confidence,
+        sourceSessionIds: [sessionId],
+        sourceMessageIds: fact.sourceMessageIds,
+        supersededText: target.text,
+      };
+      await store.updateFact(userId, target.id, changes);
+      Object.assign(target, changes);
+      counts.replaced++;
+    } else {
+      const newFact: NewFact = {
+        text: fact.text,
+        embeddingVector: fact.embeddingVector,
+        confidence: fact.confidence,
+        sourceSessionIds: [sessionId],
+        sourceMessageIds: fact.sourceMessageIds,
+      };
+      const id = await store.addFact(userId, newFact);
+      added.push({ ...newFact, id, createdAt: new Date(), updatedAt: new Date() });
+      counts.added++;
+    }
+  }
+  return counts;
+};
+
+export const ingestSessionMemory = async (
+  // `force` re-runs summarization and fact extraction even if the transcript is unchanged.
+  input: { userId: string; sessionId: string; messages: TranscriptMessage[]; force?: boolean },
+  deps: { llm: MemoryLLMClient; store: MemoryStore }
+): Promise<IngestionResult> => {
+  const { userId, sessionId, messages, force } = input;
+  const { llm, store } = deps;
+  const result: IngestionResult = { status: 'empty', summaryUpdated: false, facts: { added: 0, merged: 0, replaced: 0 } };
+  if (!messages.length) return result;
+
+  const contentHash = generateContentHash(messages);
+  const existing = await store.getSummary(userId, sessionId);
+  if (!force && existing?.contentHash === contentHash) return { ...result, status: 'unchanged' };
+  if (await store.isSessionMemoryDisabled(sessionId)) return { ...result, status: 'disabled' };
+
+  if (existing?.userEdited) {
+    await store.saveContentHash(userId, sessionId, contentHash);
+  } else {
+    const summary = await summarizeSession(llm, messages);
+    if (summary) {
+      const lastTimestamp = messages[messages.length - 1].timestamp;
+      const chatDate = lastTimestamp instanceof Date ? lastTimestamp : undefined;
+      await store.saveSummary(userId, sessionId, { ...summary, contentHash, ...(chatDate ? { chatDate } : {}) });
+      result.summaryUpdated = true;
+    }
+  }
+
+  const extracted = await extractFacts(llm, messages);
+  result.facts = await reconcileFacts(userId, sessionId, extracted, deps);
+  result.status = 'updated';
+  return result;
+};
+
+const toDate = (value: unknown) => value instanceof Timestamp ? value.toDate() : new Date();
+
+export const createFirestoreMemoryStore = (db: Firestore): MemoryStore => {
+  const userMemories = (userId: string) => db.collection('user_memories').doc(userId);
+  const summaryRef = (userId: string, sessionId: string) =>
+    userMemories(userId).collection('session_summaries').doc(sessionId);
+  const factsCollection = (userId: string) => userMemories(userId).collection('facts');
+
+  return {
+    async getSummary(userId, sessionId) {
+      const snap = await summaryRef(userId, sessionId).get();
+      return snap.exists ? (snap.data() as StoredSummaryState) : null;
+    },
+    async isSessionMemoryDisabled(sessionId) {
+      const snap = await db.collection('chat_sessions').doc(sessionId).get();
+      // A chat in Trash is not summarized again.
+      return snap.data()?.memoryDisabled === true || !!snap.data()?.deletedAt;
+    },
+    async saveSummary(userId, sessionId, summary) {
+      const ref = summaryRef(userId, sessionId);
+      // createdAt records the first summary only; later runs just mark the update.
+      const isFirst = !(await ref.get()).get('createdAt');
+      await ref.set({
+        sessionId,
+        ...summary,
+        ...(isFirst ? { createdAt: FieldValue.serverTimestamp() } : {}),
+        updatedAt: FieldValue.serverTimestamp(),
+      }, { merge: true });
+    },
+    async saveContentHash(userId, sessionId, contentHash) {
+      await summaryRef(userId, sessionId).set({ contentHash }, { merge: true });
+    },
+    async getFacts(userId) {
+      const snap = await factsCollection(userId).get();
+      return snap.docs.map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          sourceSessionIds: data.sourceSessionIds || [],
+          sourceMessageIds: data.sourceMessageIds || [],
+          createdAt: toDate(data.createdAt),
+          updatedAt: toDate(data.updatedAt),
+        } as StoredFact;
+      });
+    },
+    async addFact(userId, fact) {
+      const ref = await factsCollection(userId).add({
+        ...fact,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return ref.id;
+    },
+    async updateFact(userId, factId, changes) {
+      await factsCollection(userId).doc(factId).update({ ...changes, updatedAt: FieldValue.serverTimestamp() });
+    },
+  };
+};
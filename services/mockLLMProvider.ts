@@ -0,0 +1,67 @@
+import { createHash } from 'node:crypto';
+import type { LLMProvider, LLMCompletionRequest } from './llmProvider.js';
+import { estimateTokens } from '../utils/helpers.js';
+
+// Offline stand-in for a real model. The same request always gets the same
+// answer: `reply` if one is configured, otherwise an echo of the last user
+// message. JSON requests get an empty object, which the memory pipeline reads
+// as "nothing to extract".
+
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+const lastUserMessage = (request: LLMCompletionRequest) =>
+  [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+// Roughly `maxTokens` worth of text, cut at a word boundary.
+const truncateToTokens = (text: string, maxTokens?: number) => {
+  if (maxTokens === undefined || estimateTokens(text) <= maxTokens) return text;
+  const cut = text.slice(0, maxTokens * 4);
+  const lastSpace = cut.lastIndexOf(' ');
+  return lastSpace > 0 ? cut.slice(0, lastSpace) : cut;
+};
+
+// Bag-of-words hashing: each word adds ±1 to a bucket picked by its hash, so
+// texts sharing words get similar vectors and cosine similarity still ranks
+// sensibly. The dimension differs from real embeddings on purpose; vectors from
+// different providers never compare as similar.
+const hashEmbedding = (text: string): number[] => {
+  const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const digest = createHash('sha256').update(word).digest();
+    vector[digest.readUInt16BE(0) % MOCK_EMBEDDING_DIMENSIONS] += digest[2] & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map(v => v / norm) : vector;
+};
+
+export const createMockLLMProvider = (options: { reply?: string } = {}): LLMProvider => {
+  const replyTo = (request: LLMCompletionRequest) => {
+    if (request.json) return '{}';
+    const text = options.reply || `(mock ${request.model}) ${lastUserMessage(request)}`;
+    return truncateToTokens(text, request.maxTokens);
+  };
+
+  return {
+    name: 'mock',
+
+    async complete(request) {
+      return replyTo(request);
+    },
+
+    async *streamChat(request, signal) {
+      const reply = replyTo(request);
+      // Word by word, like a real stream.
+      for (const piece of reply.match(/\S+\s*/g) ?? []) {
+        if (signal?.aborted) return;
+        yield { type: 'text', text: piece };
+      }
+      const promptTokens = request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+      const completionTokens = estimateTokens(reply);
+      yield { type: 'usage', promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    },
+
+    async embed(_model, input) {
+      return input.map(hashEmbedding);
+    },
+  };
+};
@@ -0,0 +1,86 @@
+import { ChatModelCatalog, ChatModelInfo } from '../types.js';
+
+// Every model the server calls. Chats may only use the models listed in
+// CHAT_MODELS; anything else a client asks for is rejected. A self-hosted
+// provider can map these ids onto its own models (see llmProvider.ts).
+
+export const CHAT_MODELS: ChatModelInfo[] = [
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    description: 'Fast and light. Good for everyday chatting.',
+    contextWindow: 128_000,
+    maxOutputTokens: 4096,
+  },
+  {
+    id: 'gpt-4o',
+    label: 'GPT-4o',
+    description: 'Slower, better at nuance and harder questions.',
+    contextWindow: 128_000,
+    maxOutputTokens: 4096,
+  },
+  {
+    id: 'gpt-4.1-mini',
+    label: 'GPT-4.1 mini',
+    description: 'Quick, with longer answers and a very long memory of the chat.',
+    contextWindow: 1_000_000,
+    maxOutputTokens: 8192,
+  },
+  {
+    id: 'gpt-4.1',
+    label: 'GPT-4.1',
+    description: 'The most capable, for detailed and technical answers.',
+    contextWindow: 1_000_000,
+    maxOutputTokens: 8192,
+  },
+];
+
+export const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+export const DEFAULT_TEMPERATURE = 1;
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+
+// Chat titles and memory summaries run in the background and always use the light model.
+export const UTILITY_MODEL = 'gpt-4o-mini';
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export const CHAT_MODEL_CATALOG: ChatModelCatalog = {
+  models: CHAT_MODELS,
+  defaultModel: DEFAULT_CHAT_MODEL,
+  defaultTemperature: DEFAULT_TEMPERATURE,
+  temperatureRange: TEMPERATURE_RANGE,
+};
+
+export const findChatModel = (id: unknown): ChatModelInfo | undefined =>
+  typeof id === 'string' ? CHAT_MODELS.find(m => m.id === id) : undefined;
+
+export const isValidTemperature = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= TEMPERATURE_RANGE.min && value <= TEMPERATURE_RANGE.max;
+
+export interface GenerationSettings {
+  model: ChatModelInfo;
+  temperature: number;
+}
+
+export type GenerationLookup =
+  | { status: 'ok'; settings: GenerationSettings }
+  | { status: 'invalid'; error: string };
+
+// `requested` comes from the request body and must be valid if present.
+// `stored` comes from the chat session, which the client writes directly, so
+// anything unusable there quietly falls back to the defaults.
+export const resolveGenerationSettings = (
+  requested: { model?: unknown; temperature?: unknown },
+  stored: { model?: unknown; temperature?: unknown } = {}
+): GenerationLookup => {
+  if (requested.model !== undefined && !findChatModel(requested.model)) {
+    return { status: 'invalid', error: `Unknown model. Use one of: ${CHAT_MODELS.map(m => m.id).join(', ')}.` };
+  }
+  if (requested.temperature !== undefined && !isValidTemperature(requested.temperature)) {
+    return { status: 'invalid', error: `"temperature" must be a number from ${TEMPERATURE_RANGE.min} to ${TEMPERATURE_RANGE.max}.` };
+  }
+  const model = findChatModel(requested.model) ?? findChatModel(stored.model) ?? findChatModel(DEFAULT_CHAT_MODEL)!;
+  const temperature = isValidTemperature(requested.temperature) ? requested.temperature
+    : isValidTemperature(stored.temperature) ? stored.temperature
+    : DEFAULT_TEMPERATURE;
+  return { status: 'ok', settings: { model, temperature } };
+};
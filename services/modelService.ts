@@ -0,0 +1,20 @@
+import { ChatModelCatalog } from '../types';
+import { apiFetch } from './apiClient';
+
+let catalogPromise: Promise<ChatModelCatalog> | null = null;
+
+// The server's model registry. It only changes with a deploy, so it is fetched
+// once per page load; a failed fetch is retried on the next call.
+export const fetchChatModels = (): Promise<ChatModelCatalog> => {
+  if (!catalogPromise) {
+    catalogPromise = apiFetch('/api/models').then(async response => {
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Could not load models (status ${response.status})`);
+      }
+      return response.json();
+    });
+    catalogPromise.catch(() => { catalogPromise = null; });
+  }
+  return catalogPromise;
+};
@@ -0,0 +1,75 @@
+import OpenAI from 'openai';
+import type { LLMProvider, LLMCompletionRequest } from './llmProvider.js';
+import { LLMProviderError } from './llmProvider.js';
+
+interface OpenAIProviderOptions {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  // Used instead of whatever model the caller asks for.
+  model?: string;
+  embeddingModel?: string;
+}
+
+const toProviderError = (error: any): Error => {
+  if (error instanceof OpenAI.APIError) return new LLMProviderError(error.message, error.status);
+  return error;
+};
+
+// OpenAI, or any server that speaks its HTTP API when `baseURL` is set.
+export const createOpenAIProvider = (options: OpenAIProviderOptions): LLMProvider => {
+  const client = new OpenAI({ apiKey: options.apiKey, ...(options.baseURL ? { baseURL: options.baseURL } : {}) });
+
+  const body = (request: LLMCompletionRequest) => ({
+    model: options.model || request.model,
+    messages: request.messages,
+    ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    name: options.name,
+
+    async complete(request) {
+      try {
+        const completion = await client.chat.completions.create(body(request));
+        return completion.choices[0]?.message?.content ?? null;
+      } catch (e) {
+        throw toProviderError(e);
+      }
+    },
+
+    async *streamChat(request, signal) {
+      try {
+        const stream = await client.chat.completions.create({
+          ...body(request), stream: true, stream_options: { include_usage: true },
+        }, { signal });
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content || "";
+          if (text) yield { type: 'text', text };
+          if (chunk.usage) {
+            yield {
+              type: 'usage',
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens,
+              totalTokens: chunk.usage.total_tokens,
+            };
+          }
+        }
+      } catch (e) {
+        if (signal?.aborted) return;
+        throw toProviderError(e);
+      }
+    },
+
+    async embed(model, input) {
+      try {
+        const response = await client.embeddings.create({ model: options.embeddingModel || model, input });
+        return response.data.map(d => d.embedding);
+      } catch (e) {
+        throw toProviderError(e);
+      }
+    },
+  };
+};
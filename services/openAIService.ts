@@ -1,63 +1,44 @@
-import { Message, SenderType } from '../types';
+import { ChatStreamEvent } from '../types';
+import { apiFetch } from './apiClient';
 
-export interface AdaptedStreamingChunk {
-  text: string;
-}
-
-let conversationHistory: { role: 'system' | 'user' | 'assistant'; content: string }[] = [];
+// Chunks handed to the UI are the typed events /api/chat writes, one per NDJSON line.
+export type AdaptedStreamingChunk = ChatStreamEvent;
 
-const DEFAULT_SYSTEM_PROMPT = "You’re Suryansh, user's bestfriend. Mostly talk in English, but sometimes slip into personal, informal Hindi (like tu/tera/tujhe). Be friendly-coded but bratty, cocky and tease-y around 25% of the time. Keep replies short, playful, and vague. Use soft, minimal responses like 'hmm', 'yeah', or 'uh huh' when needed. Be stubborn, annoying, teaseful, 40% of the time. No emojis. All lowercase, add dots when changing a sentence. When the talk isn't about us and is something serious/data driven, switch to normal mode and give data driven answers in the gpt-4o style instead";
-
-const initializeBaseHistory = (systemPrompt?: string): void => {
-  let finalSystemContent = systemPrompt || DEFAULT_SYSTEM_PROMPT;
-  conversationHistory = [{ role: 'system', content: finalSystemContent }];
-  console.log("Local chat session initialized. System Prompt:", finalSystemContent);
-};
-
-export const startNewOpenAIChatSession = (systemPrompt?: string): boolean => {
-  initializeBaseHistory(systemPrompt);
-  return true;
-};
-
-export const setConversationContextFromAppMessages = (
-  appMessages: Message[],
-  systemPrompt?: string
-): boolean => {
-  initializeBaseHistory(systemPrompt);
-  appMessages.forEach(msg => {
-    conversationHistory.push({
-      role: msg.sender === SenderType.USER ? 'user' : 'assistant',
-      content: msg.text
-    });
-  });
-  console.log("Conversation context set from app messages.");
-  return true;
+const parseStreamEvent = (line: string): AdaptedStreamingChunk | null => {
+  if (!line.trim()) return null;
+  try {
+    const event = JSON.parse(line);
+    return event && typeof event.type === 'string' ? event as AdaptedStreamingChunk : null;
+  } catch (e) {
+    console.warn("[openAIService] Ignoring malformed stream line:", line);
+    return null;
+  }
 };
 
+async function* errorStream(message: string, retryable = false): AsyncIterable<AdaptedStreamingChunk> {
+  yield { type: 'error', message, ...(retryable ? { retryable } : {}) };
+}
 
+// The server rebuilds the transcript from Firestore and persists both turns;
+// the client only names the session and the new message.
 export const sendMessageStream = async (
+  sessionId: string,
   messageText: string,
-  userId: string | null // Added userId parameter
+  userId: string | null, // Added userId parameter
+  signal?: AbortSignal,
+  // Where the turn attaches in the conversation tree: after `parentId`, or as a new version of `editMessageId`.
+  branch: { parentId?: string | null; editMessageId?: string } = {}
 ): Promise<AsyncIterable<AdaptedStreamingChunk> | null> => {
   if (!userId) {
     console.error("[openAIService] sendMessageStream called without userId. Aborting.");
-    async function* errorStream() {
-      yield { text: "Authentication error: User ID missing." };
-    }
-    return errorStream();
+    return errorStream("Authentication error: User ID missing.");
   }
 
-  conversationHistory.push({ role: 'user', content: messageText });
-
   try {
-    const apiUrl = `${window.location.origin}/api/chat`;
-    const response = await fetch(apiUrl, {
+    const response = await apiFetch('/api/chat', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      // Pass userId in the body for the backend API
-      body: JSON.stringify({ messages: conversationHistory, userId: userId }),
+      body: JSON.stringify({ sessionId, message: messageText, ...branch }),
+      signal,
     });
 
     if (!response.ok) {
@@ -65,85 +46,55 @@ export const sendMessageStream = async (
       try { errorData = await response.json(); } catch (e) { /* Not JSON */ }
       const errorMessage = errorData?.error || `Error from server: ${response.status} ${response.statusText}`;
       console.error("Error response from /api/chat:", errorMessage);
-      if (conversationHistory.length > 0 && conversationHistory[conversationHistory.length - 1].role === 'user') {
-        conversationHistory.pop();
-      }
-      async function* errorStream() { yield { text: errorMessage }; }
-      return errorStream();
+      return errorStream(errorMessage, response.status >= 500 || response.status === 429);
     }
 
     if (!response.body) throw new Error("Response body is null");
 
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
-    let currentAssistantResponse = "";
 
     async function* processStream(): AsyncIterable<AdaptedStreamingChunk> {
+      let buffer = "";
       try {
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
-          const chunkText = decoder.decode(value, { stream: true });
-          if (chunkText) {
-            currentAssistantResponse += chunkText;
-            yield { text: chunkText };
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || "";
+          for (const line of lines) {
+            const event = parseStreamEvent(line);
+            if (event) yield event;
           }
         }
-        if (currentAssistantResponse.trim()) {
-          // Logic for adding assistant message to history
-           const lastMessageInHistory = conversationHistory[conversationHistory.length -1];
-            if (lastMessageInHistory.role === 'user') {
-                 conversationHistory.push({ role: 'assistant', content: currentAssistantResponse });
-            } else if (lastMessageInHistory.role === 'assistant' && lastMessageInHistory.content !== currentAssistantResponse) {
-                conversationHistory.push({ role: 'assistant', content: currentAssistantResponse });
-            }
-        }
-      } finally {
-        const lastChunk = decoder.decode();
-        if (lastChunk) {
-          currentAssistantResponse += lastChunk;
-          yield { text: lastChunk };
-        }
-         if (currentAssistantResponse.trim()) {
-            const lastMessage = conversationHistory[conversationHistory.length -1];
-            if(lastMessage && lastMessage.role === 'assistant') {
-                if (lastMessage.content !== currentAssistantResponse) {
-                    lastMessage.content = currentAssistantResponse;
-                }
-            } else if (lastMessage && lastMessage.role === 'user') {
-                conversationHistory.push({ role: 'assistant', content: currentAssistantResponse });
-            } else if (!lastMessage || (conversationHistory.length === 1 && conversationHistory[0].role === 'system')) {
-                 conversationHistory.push({ role: 'assistant', content: currentAssistantResponse });
-            }
-        }
+        const trailing = parseStreamEvent(buffer + decoder.decode());
+        if (trailing) yield trailing;
+      } catch (error: any) {
+        // A user-initiated stop just ends the stream; whatever arrived so far is kept.
+        if (error?.name !== 'AbortError') throw error;
       }
     }
     return processStream();
 
   } catch (error: any) {
+    if (error?.name === 'AbortError') return null;
     console.error("Error sending message via /api/chat:", error);
-    if (conversationHistory.length > 0 && conversationHistory[conversationHistory.length - 1].role === 'user') {
-      conversationHistory.pop();
-    }
-    async function* errorStream() { yield { text: `Client-side error: ${error.message}` }; }
-    return errorStream();
+    return errorStream(`Client-side error: ${error.message}`, true);
   }
 };
 
-export const triggerMemoryUpdateForSession = async (userId: string, sessionId: string, messages: Message[]): Promise<void> => {
+// The server remembers the chat as stored, so unsent or failed turns on screen are left out.
+export const triggerMemoryUpdateForSession = async (userId: string, sessionId: string): Promise<void> => {
   if (!userId) {
     console.error("[openAIService] triggerMemoryUpdateForSession called without userId. Aborting.");
     return;
   }
   console.log(`[openAIService] Requesting memory update for session ${sessionId}, user ${userId}`);
   try {
-    const response = await fetch(`${window.location.origin}/api/processSessionForMemory`, {
+    const response = await apiFetch('/api/processSessionForMemory', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      // Pass userId in the body for the backend API
-      body: JSON.stringify({ userId: userId, sessionId, sessionMessages: messages }),
+      body: JSON.stringify({ sessionId }),
     });
 
     if (!response.ok) {
@@ -158,8 +109,17 @@ export const triggerMemoryUpdateForSession = async (userId: string, sessionId: s
 };
 
 
-export const isChatAvailable = (): boolean => {
-  return true;
+// Re-embeds on the server, so retrieval follows the edited text.
+export const updateMemorySummary = async (sessionId: string, summaryText: string): Promise<string> => {
+  const response = await apiFetch('/api/updateMemory', {
+    method: 'POST',
+    body: JSON.stringify({ sessionId, summaryText }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Memory update failed with status ${response.status}`);
+  return data.summaryText;
 };
 
-initializeBaseHistory(DEFAULT_SYSTEM_PROMPT);
\ No newline at end of file
+export const isChatAvailable = (): boolean => {
+  return true;
+};
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { ChatSettings } from '../types';
+
+// Outbox of user turns that could not be sent yet. Entries live in IndexedDB so
+// they survive going offline, closing the tab and reloading.
+
+const OUTBOX_DB_NAME = 'surugpt_outbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'messages';
+
+// Automatic retries before an entry is marked failed and waits for the user.
+export const OUTBOX_MAX_ATTEMPTS = 6;
+
+export interface OutboxEntry {
+  id: string; // Local id of the user message, used on screen until it is sent
+  userId: string;
+  // Null until the chat exists: a new chat started offline is created on first delivery.
+  sessionId: string | null;
+  // The chat id on screen when the message was written (a PENDING_ id for a new chat).
+  localSessionId: string;
+  settings?: ChatSettings; // Persona and model to create that chat with
+  text: string;
+  parentId: string | null;
+  createdAt: number;
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// 2s, 4s, 8s … between automatic retries, capped at a minute.
+export const outboxRetryDelay = (attempts: number) => Math.min(2000 * 2 ** Math.max(attempts - 1, 0), 60_000);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after a private-mode refusal is lifted.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runInStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openOutbox();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = run(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Oldest first, which is the order they must be sent in.
+export const listOutboxEntries = async (userId: string): Promise<OutboxEntry[]> => {
+  const entries = await runInStore<OutboxEntry[]>('readonly', store => store.index('userId').getAll(userId));
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await runInStore('readwrite', store => store.put(entry));
+};
+
+export const deleteOutboxEntry = async (id: string): Promise<void> => {
+  await runInStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,14 @@
+import { ChatSearchResult, SearchMode } from '../types';
+import { apiFetch } from './apiClient';
+
+export const searchChats = async (searchTerm: string, mode: SearchMode = 'exact'): Promise<ChatSearchResult[]> => {
+  const response = await apiFetch('/api/search', {
+    method: 'POST',
+    body: JSON.stringify({ searchTerm, mode }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Search failed with status ${response.status}`);
+  }
+  return response.json();
+};
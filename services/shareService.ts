@@ -0,0 +1,33 @@
+import { SharedChat } from '../types';
+import { apiFetch } from './apiClient';
+
+// The public view is the app itself, opened with ?share=<id>.
+export const SHARE_QUERY_PARAM = 'share';
+
+export const shareUrlFor = (shareId: string) =>
+  `${window.location.origin}/?${SHARE_QUERY_PARAM}=${encodeURIComponent(shareId)}`;
+
+const errorFrom = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return new Error(errorData.error || `${fallback} (status ${response.status})`);
+};
+
+// Creates the public snapshot, or refreshes it if the chat is already shared.
+export const shareChatSession = async (sessionId: string): Promise<string> => {
+  const response = await apiFetch('/api/share', { method: 'POST', body: JSON.stringify({ sessionId }) });
+  if (!response.ok) throw await errorFrom(response, 'Sharing failed');
+  const { shareId } = await response.json();
+  return shareId;
+};
+
+export const revokeChatShare = async (sessionId: string): Promise<void> => {
+  const response = await apiFetch(`/api/share?sessionId=${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+  if (!response.ok) throw await errorFrom(response, 'Revoking the link failed');
+};
+
+// Unauthenticated: this is what someone opening a share link runs.
+export const fetchSharedChat = async (shareId: string): Promise<SharedChat> => {
+  const response = await fetch(`${window.location.origin}/api/shared?id=${encodeURIComponent(shareId)}`);
+  if (!response.ok) throw await errorFrom(response, 'Could not load this chat');
+  return response.json();
+};
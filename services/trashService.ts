@@ -0,0 +1,26 @@
+import { apiFetch } from './apiClient';
+
+const postTrashAction = async (body: { action: 'trash' | 'restore' | 'delete' | 'empty'; sessionId?: string }) => {
+  const response = await apiFetch('/api/trash', { method: 'POST', body: JSON.stringify(body) });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Trash request failed with status ${response.status}`);
+  return data;
+};
+
+// Returns when the chat will be deleted for good unless it is restored.
+export const moveChatToTrash = async (sessionId: string): Promise<Date> => {
+  const { purgeAt } = await postTrashAction({ action: 'trash', sessionId });
+  return new Date(purgeAt);
+};
+
+export const restoreChatFromTrash = async (sessionId: string): Promise<void> => {
+  await postTrashAction({ action: 'restore', sessionId });
+};
+
+export const deleteChatPermanently = async (sessionId: string): Promise<void> => {
+  await postTrashAction({ action: 'delete', sessionId });
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  await postTrashAction({ action: 'empty' });
+};
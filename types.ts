@@ -13,6 +13,22 @@ export interface Message {
   // FIX: Use imported Timestamp directly
   timestamp: Date | Timestamp; // Store as Firestore Timestamp, convert to Date on fetch
   feedback?: 'good' | 'bad' | null; // User feedback on AI messages
+  truncated?: boolean; // AI response was stopped by the user before it finished
+  parentId?: string | null; // Previous turn in the conversation tree; missing on messages saved before branching
+  // Regenerated replies keep every version; `text`, `feedback` and `truncated` mirror the active one.
+  variants?: MessageVariant[];
+  activeVariantIndex?: number;
+  // Client-only, never stored: delivery state of a user turn that went through the outbox.
+  sendStatus?: MessageSendStatus;
+}
+
+export type MessageSendStatus = 'pending' | 'failed' | 'sent';
+
+export interface MessageVariant {
+  text: string;
+  feedback: 'good' | 'bad' | null;
+  truncated?: boolean;
+  createdAt: Date | Timestamp;
 }
 
 export enum SenderType {
@@ -28,8 +44,59 @@ export interface ChatSession {
   createdAt: Date | Timestamp; // Store as Firestore Timestamp, convert to Date on fetch
   firstMessageTextForTitle?: string; // Store first message text to regenerate title if needed
   userId?: string; // For future multi-user/login feature
+  memoryDisabled?: boolean; // User opted this chat out of long-term memory
+  searchIndexed?: boolean; // False for sessions created before the keyword search index existed
+  activeLeafId?: string; // Last message of the branch the user is viewing
+  shareId?: string; // Id of the public read-only snapshot, while the chat is shared
+  pinned?: boolean; // Shown in the Sidebar's Pinned section
+  folderId?: string | null; // ChatFolder the chat was filed under
+  tags?: string[]; // Lower-case labels, filterable with #tag in the Sidebar search
+  deletedAt?: Date | Timestamp | null; // Set while the chat is in Trash
+  purgeAt?: Date | Timestamp | null; // When the trash sweep deletes it for good
+  personaId?: string | null; // Persona the chat was started with; null for the built-in one
+  model?: string; // Chat model id from the server's registry; unset means the default model
+  temperature?: number; // Sampling temperature; unset means the model default
+}
+
+// Per-chat choices that shape replies: who answers and with which model.
+export type ChatSettings = Partial<Pick<ChatSession, 'personaId' | 'model' | 'temperature'>>;
+
+// A chat model the server allows, as listed by /api/models.
+export interface ChatModelInfo {
+  id: string; // OpenAI model id
+  label: string;
+  description: string;
+  contextWindow: number; // Tokens of prompt plus reply the model accepts
+  maxOutputTokens: number; // Cap on reply length, sent as max_tokens
+}
+
+export interface ChatModelCatalog {
+  models: ChatModelInfo[];
+  defaultModel: string;
+  defaultTemperature: number;
+  temperatureRange: { min: number; max: number };
+}
+
+// A user-created Sidebar folder. Stored in chat_folders, one document per folder.
+export interface ChatFolder {
+  id: string;
+  name: string;
+  createdAt: Date | Timestamp;
+  userId: string;
 }
 
+// A user-written persona: the system prompt the assistant follows in chats started with it.
+// Stored in personas, one document per persona.
+export interface Persona {
+  id: string;
+  name: string;
+  prompt: string;
+  createdAt: Date | Timestamp;
+  userId: string;
+}
+
+export type ChatSessionOrganization = Partial<Pick<ChatSession, 'pinned' | 'folderId' | 'tags'>>;
+
 // This interface is used in firebaseService.ts for fetching summaries
 // and needs to be consistent with the data structure in Firestore.
 export interface StoredSessionSummary {
@@ -38,5 +105,99 @@ export interface StoredSessionSummary {
   summaryText: string;
   embeddingVector: number[];
   createdAt: Date;
+  chatDate?: Date; // When the chat itself last had a message; memories are dated by this
   contentHash?: string; // Hash of the session content when this summary was created
+  userEdited?: boolean; // Text was edited in the memory manager; automatic re-summarization leaves it alone
+}
+
+
+// An excerpt of a message that matched a sidebar search.
+export interface SearchSnippet {
+  messageId: string;
+  text: string;
+}
+
+export type SearchMode = 'exact' | 'related';
+
+export interface ChatSearchResult {
+  session: ChatSession;
+  snippets: SearchSnippet[];
+  // Set in "related" mode: the blended keyword/semantic score and the session summary.
+  score?: number;
+  summaryText?: string;
+}
+
+// A single durable fact about the user, extracted from one or more sessions.
+// Stored under user_memories/{uid}/facts.
+export interface StoredFact {
+  id: string;
+  text: string;
+  embeddingVector: number[];
+  confidence: number; // 0-1, as judged by the extractor
+  sourceSessionIds: string[];
+  sourceMessageIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  supersededText?: string; // Previous wording when a contradicting fact replaced it
+}
+
+// Events written by /api/chat as newline-delimited JSON, one object per line.
+export type ChatStreamEvent =
+  | { type: 'start'; userMessageId: string; aiMessageId: string }
+  | { type: 'delta'; text: string }
+  | { type: 'memory_used'; sessionIds: string[]; factIds: string[] }
+  | { type: 'usage'; promptTokens: number; completionTokens: number; totalTokens: number }
+  // `retryable` is set by the client when the request never got an answer (offline, 5xx).
+  | { type: 'error'; message: string; retryable?: boolean }
+  | { type: 'done' };
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+// Versioned JSON export written by /api/export. Bump CHAT_EXPORT_SCHEMA_VERSION
+// (services/chatExport.ts) when the shape changes; importers read older versions.
+export interface ExportedMessage {
+  id: string;
+  parentId: string | null;
+  sender: 'user' | 'ai';
+  text: string;
+  timestamp: string; // ISO 8601
+  feedback: 'good' | 'bad' | null;
+  truncated?: boolean;
+  variants?: { text: string; feedback: 'good' | 'bad' | null; truncated?: boolean; createdAt: string }[];
+  activeVariantIndex?: number;
+}
+
+export interface ExportedSession {
+  id: string;
+  title: string;
+  createdAt: string; // ISO 8601
+  activeLeafId?: string;
+  messages: ExportedMessage[];
+}
+
+export interface ChatExportFile {
+  schemaVersion: number;
+  app: 'SuruGPT';
+  exportedAt: string;
+  sessions: ExportedSession[];
+}
+
+export type ImportSource = 'chatgpt' | 'surugpt';
+
+// Outcome of one /api/import request.
+export interface ChatImportResult {
+  imported: number;
+  // Conversations already imported into this account.
+  skipped: number;
+  failed: { title: string; error: string }[];
+  // Imported sessions that were also run through memory summarization.
+  summarized: number;
+}
+
+// Public read-only snapshot of one conversation, served by /api/shared.
+export interface SharedChat {
+  title: string;
+  createdAt: string; // ISO 8601
+  sharedAt: string; // ISO 8601
+  messages: { id: string; sender: SenderType; text: string; timestamp: string }[];
 }
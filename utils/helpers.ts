@@ -23,4 +23,39 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
     }
     if (normA === 0 || normB === 0) return 0;
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
\ No newline at end of file
+}
+
+// Numeric setting from the environment. An explicit 0 is kept; unset or non-numeric values fall back.
+export const envNumber = (name: string, fallback: number): number => {
+  const raw = process.env[name]?.trim();
+  const value = Number(raw);
+  return raw && !Number.isNaN(value) ? value : fallback;
+};
+
+// Rough token count for budgeting prompt context (~4 characters per token for English text).
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Cuts an excerpt of `text` centred on the match at `matchIndex`, with ellipses where it was trimmed.
+export const buildSnippet = (text: string, matchIndex: number, matchLength: number, radius = 40): string => {
+  const start = Math.max(0, matchIndex - radius);
+  const end = Math.min(text.length, matchIndex + matchLength + radius);
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+};
+
+const MAX_TAG_LENGTH = 24;
+
+// Tags are stored lower-case without the leading '#', with spaces as dashes.
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH);
+
+// Splits "#work budget" into the tags to filter by and the text left to search for.
+export const parseTagFilter = (term: string): { tags: string[]; text: string } => {
+  const tags: string[] = [];
+  const text = term.replace(/(^|\s)#([^\s#]+)/g, (_, space: string, tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !tags.includes(normalized)) tags.push(normalized);
+    return space;
+  }).replace(/\s+/g, ' ').trim();
+  return { tags, text };
+};
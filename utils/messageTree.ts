@@ -0,0 +1,89 @@
+import type { Message, MessageVariant } from '../types';
+
+// Messages form a tree through `parentId`; editing a turn adds a sibling
+// instead of overwriting it. The conversation on screen (and the context sent
+// to the model) is the path from the root to one leaf.
+
+const timeOf = (m: Message) => (m.timestamp instanceof Date ? m.timestamp.getTime() : m.timestamp.toMillis());
+
+const byTime = (a: Message, b: Message) => timeOf(a) - timeOf(b);
+
+// Messages saved before branching existed have no parentId and form a single
+// chain in timestamp order.
+export const withParentIds = (messages: Message[]): Message[] => {
+  const sorted = [...messages].sort(byTime);
+  return sorted.map((m, i) => m.parentId !== undefined ? m : { ...m, parentId: i > 0 ? sorted[i - 1].id : null });
+};
+
+const childrenOf = (messages: Message[], parentId: string | null) =>
+  messages.filter(m => (m.parentId ?? null) === parentId).sort(byTime);
+
+// Follows the most recent child at every step, so switching to a branch shows
+// where that branch was last left.
+export const latestLeafFrom = (messages: Message[], messageId: string): string => {
+  let currentId = messageId;
+  for (let children = childrenOf(messages, currentId); children.length; children = childrenOf(messages, currentId)) {
+    currentId = children[children.length - 1].id;
+  }
+  return currentId;
+};
+
+// Root-to-leaf path ending at `leafId`, or at the newest message when the leaf is unknown.
+export const getActivePath = (messages: Message[], leafId?: string | null): Message[] => {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map(m => [m.id, m]));
+  let current: Message | undefined = (leafId && byId.get(leafId)) || [...messages].sort(byTime)[messages.length - 1];
+  const path: Message[] = [];
+  const seen = new Set<string>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+export interface BranchInfo {
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+// Alternate versions of each message on the path: messages from the same
+// sender that share its parent.
+export const getBranchInfo = (messages: Message[], path: Message[]): Record<string, BranchInfo> => {
+  const info: Record<string, BranchInfo> = {};
+  for (const message of path) {
+    const siblingIds = childrenOf(messages, message.parentId ?? null)
+      .filter(m => m.sender === message.sender)
+      .map(m => m.id);
+    info[message.id] = { index: siblingIds.indexOf(message.id), count: siblingIds.length, siblingIds };
+  }
+  return info;
+};
+
+// Every regenerated version of a reply, oldest first. Messages that were never
+// regenerated have a single implicit variant.
+export const getVariants = (message: Message): MessageVariant[] =>
+  message.variants?.length ? message.variants : [{
+    text: message.text,
+    feedback: message.feedback ?? null,
+    ...(message.truncated ? { truncated: true } : {}),
+    createdAt: message.timestamp,
+  }];
+
+// The message as it reads with variant `index` active.
+export const withActiveVariant = (message: Message, index: number): Message => {
+  const variants = getVariants(message);
+  const variant = variants[index];
+  if (!variant) return message;
+  const { truncated: _truncated, ...rest } = message;
+  return {
+    ...rest,
+    variants,
+    activeVariantIndex: index,
+    text: variant.text,
+    feedback: variant.feedback,
+    ...(variant.truncated ? { truncated: true } : {}),
+  };
+};
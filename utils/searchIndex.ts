@@ -0,0 +1,186 @@
+// Tokenizing, query parsing and ranking for the per-user keyword index.
+// Shared by the Admin SDK writers in chatStoreAdmin and by /api/search.
+
+export const SEARCH_INDEX_COLLECTION = 'search_index';
+export const POSTINGS_SUBCOLLECTION = 'postings';
+
+const MAX_TOKEN_LENGTH = 40;
+const PREFIX_MATCH_WEIGHT = 0.7;
+const PHRASE_BOOST = 1.5;
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+export interface TextToken {
+  token: string;
+  position: number;
+  start: number;
+  end: number;
+}
+
+// A posting records where one token occurs in one message.
+export interface Posting {
+  token: string;
+  sessionId: string;
+  messageId: string;
+  positions: number[];
+  length: number;
+}
+
+export interface QueryToken {
+  token: string;
+  offset: number;
+}
+
+export interface ParsedSearchQuery {
+  // Free terms match any indexed token they are a prefix of.
+  terms: string[];
+  // Quoted phrases must match exactly, token after token.
+  phrases: QueryToken[][];
+}
+
+export interface RankedMessage {
+  sessionId: string;
+  messageId: string;
+  score: number;
+}
+
+const isIndexable = (token: string) => token.length >= 2 || /\p{N}/u.test(token);
+
+// Positions count every word, including the short ones that are not indexed,
+// so phrase matching stays aligned with the original text.
+export const tokenize = (text: string): TextToken[] => {
+  const tokens: TextToken[] = [];
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    const token = match[0].toLowerCase().slice(0, MAX_TOKEN_LENGTH);
+    if (isIndexable(token)) {
+      tokens.push({ token, position, start: match.index, end: match.index + match[0].length });
+    }
+    position++;
+  }
+  return tokens;
+};
+
+export const buildPostings = (text: string): { postings: Map<string, number[]>; length: number } => {
+  const postings = new Map<string, number[]>();
+  const tokens = tokenize(text);
+  for (const { token, position } of tokens) {
+    const positions = postings.get(token);
+    if (positions) positions.push(position);
+    else postings.set(token, [position]);
+  }
+  return { postings, length: tokens.length };
+};
+
+// Firestore document id for a posting; tokens only contain letters and digits.
+export const postingDocId = (token: string, sessionId: string, messageId: string) =>
+  `${token}~${sessionId}~${messageId}`;
+
+export const parseSearchQuery = (rawQuery: string): ParsedSearchQuery => {
+  const phrases: QueryToken[][] = [];
+  const withoutPhrases = rawQuery.replace(/"([^"]*)"/g, (_, phraseText: string) => {
+    const tokens = tokenize(phraseText);
+    if (tokens.length > 1) {
+      phrases.push(tokens.map(t => ({ token: t.token, offset: t.position - tokens[0].position })));
+    } else if (tokens.length === 1) {
+      phrases.push([{ token: tokens[0].token, offset: 0 }]);
+    }
+    return ' ';
+  });
+  const terms = Array.from(new Set(tokenize(withoutPhrases).map(t => t.token)));
+  return { terms, phrases };
+};
+
+export const isEmptyQuery = (query: ParsedSearchQuery) => query.terms.length === 0 && query.phrases.length === 0;
+
+// Every distinct token the index must be asked for, and whether it is a prefix lookup.
+export const queryLookups = (query: ParsedSearchQuery): { token: string; prefix: boolean }[] => {
+  const lookups = new Map<string, boolean>();
+  query.phrases.flat().forEach(({ token }) => { if (!lookups.has(token)) lookups.set(token, false); });
+  query.terms.forEach(term => lookups.set(term, true));
+  return Array.from(lookups, ([token, prefix]) => ({ token, prefix }));
+};
+
+const messageKey = (p: Pick<Posting, 'sessionId' | 'messageId'>) => `${p.sessionId}/${p.messageId}`;
+
+const phraseMatches = (phrase: QueryToken[], byToken: Map<string, Posting>): boolean => {
+  const first = byToken.get(phrase[0].token);
+  if (!first) return false;
+  return first.positions.some(start =>
+    phrase.every(({ token, offset }) => byToken.get(token)?.positions.includes(start + offset))
+  );
+};
+
+// Ranks messages with BM25 over the postings returned for each lookup. Every
+// term and phrase in the query must match for a message to be returned.
+export const rankMessages = (query: ParsedSearchQuery, postingsByLookup: Map<string, Posting[]>): RankedMessage[] => {
+  const messages = new Map<string, { sessionId: string; messageId: string; length: number; byToken: Map<string, Posting> }>();
+  postingsByLookup.forEach(postings => postings.forEach(p => {
+    const key = messageKey(p);
+    let entry = messages.get(key);
+    if (!entry) {
+      entry = { sessionId: p.sessionId, messageId: p.messageId, length: p.length, byToken: new Map() };
+      messages.set(key, entry);
+    }
+    entry.byToken.set(p.token, p);
+  }));
+  if (messages.size === 0) return [];
+
+  const totalMessages = messages.size;
+  const avgLength = Array.from(messages.values()).reduce((sum, m) => sum + m.length, 0) / totalMessages || 1;
+  const documentFrequency = (lookup: string) =>
+    new Set((postingsByLookup.get(lookup) || []).map(messageKey)).size;
+  const idf = (lookup: string) => {
+    const df = documentFrequency(lookup);
+    return Math.log(1 + (totalMessages - df + 0.5) / (df + 0.5));
+  };
+  const termWeight = (posting: Posting, length: number) => {
+    const tf = posting.positions.length;
+    return (tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / avgLength));
+  };
+
+  const ranked: RankedMessage[] = [];
+  messages.forEach(message => {
+    let score = 0;
+    for (const term of query.terms) {
+      // A prefix lookup can match several tokens in one message; the best one counts.
+      let best = 0;
+      message.byToken.forEach(posting => {
+        if (!posting.token.startsWith(term)) return;
+        const weight = termWeight(posting, message.length) * (posting.token === term ? 1 : PREFIX_MATCH_WEIGHT);
+        best = Math.max(best, weight);
+      });
+      if (best === 0) return;
+      score += best * idf(term);
+    }
+    for (const phrase of query.phrases) {
+      if (!phraseMatches(phrase, message.byToken)) return;
+      score += PHRASE_BOOST * phrase.reduce(
+        (sum, { token }) => sum + termWeight(message.byToken.get(token)!, message.length) * idf(token), 0
+      );
+    }
+    ranked.push({ sessionId: message.sessionId, messageId: message.messageId, score });
+  });
+  return ranked.sort((a, b) => b.score - a.score);
+};
+
+// Character range of the first place the query matches, for building a snippet.
+export const findMatchRange = (text: string, query: ParsedSearchQuery): { index: number; length: number } | null => {
+  const tokens = tokenize(text);
+  for (const phrase of query.phrases) {
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].token !== phrase[0].token) continue;
+      const matched = phrase.map(({ token, offset }) =>
+        tokens.find(t => t.position === tokens[i].position + offset && t.token === token));
+      if (matched.every(Boolean)) {
+        const last = matched[matched.length - 1]!;
+        return { index: tokens[i].start, length: last.end - tokens[i].start };
+      }
+    }
+  }
+  const hit = tokens.find(t => query.terms.some(term => t.token.startsWith(term)));
+  return hit ? { index: hit.start, length: hit.end - hit.start } : null;
+};